@@ -3,217 +3,205 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import pdfParse from "pdf-parse";
-import { callAgent, callMasterAgent, buildUserPrompt, generateInstructions, FIXED_AGENTS } from "@/lib/llm";
+import { buildUserPrompt, generateInstructions, FIXED_AGENTS } from "@/lib/llm";
+import { ParsedMulta, parseDocument } from "@/lib/parse";
+import { agentMeta, draftWithAgent, mergeDrafts } from "@/lib/pipeline";
+import { getServerApiKeys } from "@/lib/providers";
+import { encodeSSE } from "@/lib/sse";
+import { extractSupportDocuments } from "@/lib/support";
+import { ESCRITOS, detectarTramite } from "@/lib/tramite";
+import type { AgentResult, AnalyzeEvent, AnalyzeRequest, AnalyzeResult } from "@/lib/contracts";
 
 export const maxDuration = 120;
 
-const PARSE_PROMPT = `Eres un asistente especializado en leer documentos de multas y sanciones administrativas españolas.
-
-Analiza este documento y extrae TODA la información visible. Rellena cada campo con exactamente lo que veas escrito (si un campo no aparece en el documento, escribe "No indicado"):
-
-=== DATOS DE LA MULTA ===
-ORGANISMO SANCIONADOR: 
-DIRECCIÓN DEL ORGANISMO: 
-EXPEDIENTE / BOLETÍN Nº: 
-FECHA DE LA INFRACCIÓN: 
-FECHA DE NOTIFICACIÓN: 
-PLAZO PARA RECURRIR: 
-
-=== INFRACCIÓN ===
-TIPO DE INFRACCIÓN: 
-ARTÍCULOS INFRINGIDOS: 
-IMPORTE DE LA SANCIÓN: 
-PUNTOS RETIRADOS: 
-LUGAR DE LA INFRACCIÓN: 
-MATRÍCULA / VEHÍCULO: 
-MARCA Y MODELO: 
-
-=== DATOS DEL DENUNCIADO ===
-NOMBRE: 
-DNI/NIF: 
-DOMICILIO: 
-
-=== TEXTO LITERAL RELEVANTE ===
-[Transcribe el texto más importante: hechos, motivación, base legal citada, advertencias sobre plazos]
-
-=== OBSERVACIONES ===
-[Cualquier dato adicional visible útil para redactar el recurso]
-
-Sé exhaustivo. No inventes datos — solo extrae lo que está escrito en el documento.`;
-
-async function parseDocument(
-  openrouterApiKey: string,
-  base64: string,
-  mimeType: string,
-  fileName: string
-): Promise<string> {
-  if (mimeType === "application/pdf") {
+class AnalyzeError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+  }
+}
+
+const CANCELADO = "Análisis cancelado: el cliente cerró la conexión";
+
+/**
+ * Pipeline completo: parseo → borradores en paralelo → fusión.
+ * emit recibe los eventos de progreso (en modo JSON es un no-op); signal
+ * corta las llamadas a los proveedores si el cliente se desconecta.
+ */
+async function runAnalysis(
+  body: AnalyzeRequest,
+  apiKeys: Record<string, string>,
+  emit: (e: AnalyzeEvent) => void,
+  signal?: AbortSignal
+): Promise<AnalyzeResult> {
+  const { multaFile, supportFiles, additionalContext } = body;
+
+  // FASE 1: Parsear (salvo que el cliente ya envíe los datos revisados)
+  let parsed: ParsedMulta;
+  const parseStart = Date.now();
+  if (body.multaData) {
+    parsed = { multaData: body.multaData, warnings: [] };
+  } else {
+    console.log("Fase 1: parseando documento...");
+    emit({ event: "parse", data: { status: "started" } });
     try {
-      const buffer = Buffer.from(base64, "base64");
-      const parsed = await pdfParse(buffer);
-      const text = (parsed.text || "").trim();
-      if (text.length > 100) {
-        const res = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${openrouterApiKey}`,
-            "HTTP-Referer": "https://recursapp.vercel.app",
-            "X-Title": "RecursApp",
-          },
-          body: JSON.stringify({
-            model: "openrouter/auto",
-            messages: [{ role: "user", content: `${PARSE_PROMPT}\n\nTEXTO DEL DOCUMENTO:\n${text}` }],
-            max_tokens: 2000,
-            temperature: 0.1,
-          }),
-        });
-        if (res.ok) {
-          const data = await res.json();
-          const result = data.choices?.[0]?.message?.content || "";
-          if (result.length > 50) return result;
-        }
-      }
-    } catch { /* fallback a visión */ }
+      parsed = await parseDocument(apiKeys.openrouter, multaFile!.base64, multaFile!.type, multaFile!.name);
+      console.log("Parseo OK:", parsed.multaData.organismo, parsed.multaData.expediente);
+    } catch (err) {
+      const error = `Error al leer el documento: ${err instanceof Error ? err.message : "Error"}`;
+      emit({ event: "parse", data: { status: "error", error, latencyMs: Date.now() - parseStart } });
+      throw new AnalyzeError(error);
+    }
   }
+  const { multaData } = parsed;
+  const escrito = body.escrito || detectarTramite(multaData).escrito;
+  emit({
+    event: "parse",
+    data: { status: "done", multaData, warnings: parsed.warnings, latencyMs: Date.now() - parseStart },
+  });
 
-  const res = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${openrouterApiKey}`,
-      "HTTP-Referer": "https://recursapp.vercel.app",
-      "X-Title": "RecursApp",
-    },
-    body: JSON.stringify({
-      model: "openrouter/auto",
-      messages: [{
-        role: "user",
-        content: [
-          { type: "text", text: PARSE_PROMPT },
-          { type: "image_url", image_url: { url: `data:${mimeType};base64,${base64}` } },
-        ],
-      }],
-      max_tokens: 2000,
-      temperature: 0.1,
-    }),
+  // FASE 2: 3 agentes en paralelo, con el contenido de las pruebas aportadas
+  const supportDocuments = await extractSupportDocuments(apiKeys.openrouter, supportFiles, signal);
+  if (signal?.aborted) throw new AnalyzeError(CANCELADO);
+  console.log("Fase 2: 3 agentes redactando en paralelo...");
+  const userPrompt = buildUserPrompt(multaData, supportDocuments, additionalContext || "", escrito, body.argumentos);
+
+  const agentPromises = FIXED_AGENTS.map(async (agentDef): Promise<AgentResult> => {
+    if (apiKeys[agentDef.provider]) emit({ event: "agent", data: { ...agentMeta(agentDef), status: "running" } });
+    const result = await draftWithAgent(
+      agentDef,
+      apiKeys,
+      userPrompt,
+      escrito,
+      (delta) => emit({ event: "agent-delta", data: { agentId: agentDef.id, delta } }),
+      signal
+    );
+    emit({ event: "agent", data: result });
+    return result;
   });
 
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`Parseo OCR ${res.status}: ${err.slice(0, 300)}`);
-  }
-  const data = await res.json();
-  return data.choices?.[0]?.message?.content || `[No se pudo parsear: ${fileName}]`;
-}
+  const settled = await Promise.allSettled(agentPromises);
+  const agentResults = settled.map((r, idx): AgentResult => {
+    if (r.status === "fulfilled") return r.value;
+    const failed: AgentResult = {
+      ...agentMeta(FIXED_AGENTS[idx]),
+      status: "error",
+      content: "",
+      error: (r.reason as Error)?.message || "Error desconocido",
+    };
+    emit({ event: "agent", data: failed });
+    return failed;
+  });
+
+  // FASE 3: Agente maestro fusiona
+  if (signal?.aborted) throw new AnalyzeError(CANCELADO);
+  console.log("Fase 3: agente maestro fusionando borradores...");
+  const successfulDrafts = agentResults
+    .filter((r) => r.status === "done" && r.content)
+    .map((r) => ({ agentName: r.label, content: r.content }));
+
+  emit({ event: "merge", data: { status: "started" } });
+  const merged = await mergeDrafts(
+    apiKeys,
+    successfulDrafts,
+    escrito,
+    undefined,
+    (delta) => emit({ event: "merge-delta", data: { delta } }),
+    signal
+  );
+  emit({
+    event: "merge",
+    data: {
+      status: merged.masterError ? "error" : "done",
+      content: merged.masterRecurso,
+      error: merged.masterError,
+      latencyMs: merged.latencyMs,
+    },
+  });
 
-function getServerApiKeys() {
   return {
-    mistral: process.env.MISTRAL_API_KEY || "",
-    openrouter: process.env.OPENROUTER_API_KEY || "",
+    agentResults,
+    masterRecurso: merged.masterRecurso,
+    masterError: merged.masterError,
+    masterCitas: merged.masterCitas,
+    // multaData se pasa para detectar el organismo y generar links correctos
+    instructions: generateInstructions(multaData, body.plazo || { procedimiento: ESCRITOS[escrito].plazo }),
+    multaData,
+    parseWarnings: parsed.warnings,
+    supportDocuments,
+    escrito,
   };
 }
 
+/**
+ * Respuesta en Server-Sent Events: un evento por fase y fragmentos de texto
+ * según llegan. Si el cliente se desconecta, cancel() aborta las llamadas en
+ * curso para que no sigan consumiendo (ni facturando) y deja de escribir.
+ */
+function streamAnalysis(body: AnalyzeRequest, apiKeys: Record<string, string>): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  let cerrado = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (e: AnalyzeEvent) => {
+        if (!cerrado) controller.enqueue(encoder.encode(encodeSSE(e.event, e.data)));
+      };
+      try {
+        const result = await runAnalysis(body, apiKeys, emit, abort.signal);
+        emit({ event: "result", data: result });
+      } catch (err) {
+        if (abort.signal.aborted) console.log(CANCELADO);
+        else console.error("Analyze error:", err);
+        emit({ event: "error", data: { error: err instanceof Error ? err.message : "Error interno" } });
+      } finally {
+        if (!cerrado) {
+          cerrado = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      cerrado = true;
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json();
-    const { multaFile, supportFiles, additionalContext } = body;
+    const body: AnalyzeRequest = await req.json();
 
-    if (!multaFile?.base64) {
+    if (!body.multaData && !body.multaFile?.base64) {
       return NextResponse.json({ error: "No se proporcionó el documento de la multa" }, { status: 400 });
     }
 
     const apiKeys = getServerApiKeys();
 
-    if (!apiKeys.openrouter) {
+    if (!body.multaData && !apiKeys.openrouter) {
       return NextResponse.json(
         { error: "Se necesita OPENROUTER_API_KEY. Configúrala en Vercel." },
         { status: 500 }
       );
     }
 
-    // FASE 1: Parsear
-    console.log("Fase 1: parseando documento...");
-    let parsedText: string;
-    try {
-      parsedText = await parseDocument(apiKeys.openrouter, multaFile.base64, multaFile.type, multaFile.name);
-      console.log("Parseo OK:", parsedText.slice(0, 120));
-    } catch (err) {
-      return NextResponse.json(
-        { error: `Error al leer el documento: ${err instanceof Error ? err.message : "Error"}` },
-        { status: 500 }
-      );
+    if (req.headers.get("accept")?.includes("text/event-stream")) {
+      return streamAnalysis(body, apiKeys);
     }
 
-    // FASE 2: 3 agentes en paralelo
-    console.log("Fase 2: 3 agentes redactando en paralelo...");
-    const supportFilesData = (supportFiles || []).map((sf: { name: string; context: string }) => ({
-      name: sf.name,
-      context: sf.context || "",
-    }));
-    const userPrompt = buildUserPrompt(parsedText, supportFilesData, additionalContext || "");
-
-    const agentPromises = FIXED_AGENTS.map(async (agentDef) => {
-      const key = apiKeys[agentDef.provider];
-      if (!key) {
-        return {
-          agentId: agentDef.id,
-          agentName: agentDef.name,
-          label: agentDef.label,
-          color: agentDef.color,
-          status: "skipped" as const,
-          content: "",
-          error: "Sin API key configurada",
-        };
-      }
-      const result = await callAgent({ ...agentDef, apiKey: key, enabled: true }, userPrompt);
-      return {
-        agentId: agentDef.id,
-        agentName: agentDef.name,
-        label: agentDef.label,
-        color: agentDef.color,
-        status: result.error ? ("error" as const) : ("done" as const),
-        content: result.content,
-        error: result.error,
-      };
-    });
-
-    const settled = await Promise.allSettled(agentPromises);
-    const agentResults = settled.map((r, idx) => {
-      if (r.status === "fulfilled") return r.value;
-      return {
-        agentId: FIXED_AGENTS[idx].id,
-        agentName: FIXED_AGENTS[idx].name,
-        label: FIXED_AGENTS[idx].label,
-        color: FIXED_AGENTS[idx].color,
-        status: "error" as const,
-        content: "",
-        error: (r.reason as Error)?.message || "Error desconocido",
-      };
-    });
-
-    // FASE 3: Agente maestro fusiona
-    console.log("Fase 3: agente maestro fusionando borradores...");
-    const successfulDrafts = agentResults
-      .filter((r) => r.status === "done" && r.content)
-      .map((r) => ({ agentName: r.label, content: r.content }));
-
-    const masterResult = await callMasterAgent(apiKeys, successfulDrafts);
-
-    return NextResponse.json({
-      agentResults,
-      masterRecurso: masterResult.content,
-      masterError: masterResult.error,
-      // parsedText se pasa para detectar el organismo y generar links correctos
-      instructions: generateInstructions(parsedText),
-      parsedText,
-    });
+    return NextResponse.json(await runAnalysis(body, apiKeys, () => {}));
   } catch (err) {
     console.error("Analyze error:", err);
     return NextResponse.json(
       { error: err instanceof Error ? err.message : "Error interno" },
-      { status: 500 }
+      { status: err instanceof AnalyzeError ? err.status : 500 }
     );
   }
 }
@@ -0,0 +1,57 @@
+/**
+ * app/api/cases/[id]/route.ts
+ *
+ * Un caso del historial compartido: leerlo entero, cambiar campos sueltos
+ * (estado, recurso definitivo…) o borrarlo.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { SIN_ALMACEN, getCaseStore, validarCaso } from "@/lib/case-store";
+import type { ApiErrorResponse, CaseRecord } from "@/lib/contracts";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: { id: string } };
+
+const noEncontrado = (id: string) => NextResponse.json({ error: `No existe el caso ${id}` }, { status: 404 });
+
+export async function GET(_req: NextRequest, { params }: Params): Promise<NextResponse<CaseRecord | ApiErrorResponse>> {
+  const store = getCaseStore();
+  if (!store) return NextResponse.json({ error: SIN_ALMACEN }, { status: 503 });
+
+  try {
+    const caso = await store.get(params.id);
+    return caso ? NextResponse.json(caso) : noEncontrado(params.id);
+  } catch (err) {
+    console.error("Case fetch error:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Error interno" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params): Promise<NextResponse<CaseRecord | ApiErrorResponse>> {
+  const store = getCaseStore();
+  if (!store) return NextResponse.json({ error: SIN_ALMACEN }, { status: 503 });
+
+  try {
+    const validado = validarCaso(await req.json(), true);
+    if ("error" in validado) return NextResponse.json({ error: validado.error }, { status: 400 });
+
+    const caso = await store.update(params.id, validado.caso);
+    return caso ? NextResponse.json(caso) : noEncontrado(params.id);
+  } catch (err) {
+    console.error("Case update error:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Error interno" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: Params): Promise<NextResponse<{ ok: true } | ApiErrorResponse>> {
+  const store = getCaseStore();
+  if (!store) return NextResponse.json({ error: SIN_ALMACEN }, { status: 503 });
+
+  try {
+    return (await store.remove(params.id)) ? NextResponse.json({ ok: true }) : noEncontrado(params.id);
+  } catch (err) {
+    console.error("Case delete error:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Error interno" }, { status: 500 });
+  }
+}
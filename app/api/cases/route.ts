@@ -0,0 +1,58 @@
+/**
+ * app/api/cases/route.ts
+ *
+ * Historial compartido: lista los casos del servidor (filtrables por estado y
+ * matrícula) y crea casos nuevos con el resultado de /api/analyze.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { SIN_ALMACEN, esIdCaso, getCaseStore, validarCaso } from "@/lib/case-store";
+import { esEstadoCaso } from "@/lib/casos";
+import type { ApiErrorResponse, CaseRecord, CreateCaseRequest, ListCasesResponse } from "@/lib/contracts";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest): Promise<NextResponse<ListCasesResponse | ApiErrorResponse>> {
+  const store = getCaseStore();
+  if (!store) return NextResponse.json({ error: SIN_ALMACEN }, { status: 503 });
+
+  const estado = req.nextUrl.searchParams.get("estado");
+  if (estado && !esEstadoCaso(estado)) {
+    return NextResponse.json({ error: `Estado desconocido: ${estado}` }, { status: 400 });
+  }
+  try {
+    const casos = await store.list({
+      estado: esEstadoCaso(estado) ? estado : undefined,
+      matricula: req.nextUrl.searchParams.get("matricula") || undefined,
+    });
+    return NextResponse.json({ casos });
+  } catch (err) {
+    console.error("Cases list error:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Error interno" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse<CaseRecord | ApiErrorResponse>> {
+  const store = getCaseStore();
+  if (!store) return NextResponse.json({ error: SIN_ALMACEN }, { status: 503 });
+
+  try {
+    const cuerpo: CreateCaseRequest = await req.json();
+    if (!cuerpo?.multaData || !cuerpo.escrito) {
+      return NextResponse.json({ error: "Faltan los datos de la multa (multaData) o el tipo de escrito" }, { status: 400 });
+    }
+    if (cuerpo.id !== undefined && (typeof cuerpo.id !== "string" || !esIdCaso(cuerpo.id))) {
+      return NextResponse.json({ error: `Id de caso no válido: ${cuerpo.id}` }, { status: 400 });
+    }
+    const validado = validarCaso(cuerpo, false);
+    if ("error" in validado) return NextResponse.json({ error: validado.error }, { status: 400 });
+
+    const caso = { ...validado.caso, id: cuerpo.id } as CreateCaseRequest;
+    const creado = await store.create(caso);
+    if (!creado) return NextResponse.json({ error: `Ya existe un caso con el id ${caso.id}` }, { status: 409 });
+    return NextResponse.json(creado, { status: 201 });
+  } catch (err) {
+    console.error("Cases create error:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Error interno" }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * app/api/draft/route.ts
+ *
+ * Fase 2 para un solo agente: permite reintentar un borrador sin volver a parsear.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { buildUserPrompt, FIXED_AGENTS } from "@/lib/llm";
+import { draftWithAgent } from "@/lib/pipeline";
+import { getServerApiKeys } from "@/lib/providers";
+import { applyBudget, extractSupportDocuments } from "@/lib/support";
+import { detectarTramite } from "@/lib/tramite";
+import type { ApiErrorResponse, DraftRequest, DraftResponse } from "@/lib/contracts";
+
+export const maxDuration = 90;
+
+export async function POST(req: NextRequest): Promise<NextResponse<DraftResponse | ApiErrorResponse>> {
+  try {
+    const { agentId, multaData, supportFiles, supportDocuments, additionalContext, escrito, argumentos }: DraftRequest =
+      await req.json();
+
+    const agentDef = FIXED_AGENTS.find((a) => a.id === agentId);
+    if (!agentDef) {
+      return NextResponse.json({ error: `Agente desconocido: ${agentId}` }, { status: 400 });
+    }
+    if (!multaData) {
+      return NextResponse.json({ error: "Faltan los datos de la multa (multaData)" }, { status: 400 });
+    }
+
+    const apiKeys = getServerApiKeys();
+    const documents = supportDocuments
+      ? applyBudget(supportDocuments)
+      : await extractSupportDocuments(apiKeys.openrouter, supportFiles);
+    const tipo = escrito || detectarTramite(multaData).escrito;
+    const userPrompt = buildUserPrompt(multaData, documents, additionalContext || "", tipo, argumentos);
+
+    return NextResponse.json(await draftWithAgent(agentDef, apiKeys, userPrompt, tipo));
+  } catch (err) {
+    console.error("Draft error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Error interno" },
+      { status: 500 }
+    );
+  }
+}
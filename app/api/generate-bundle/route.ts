@@ -0,0 +1,46 @@
+/**
+ * app/api/generate-bundle/route.ts
+ *
+ * ZIP para subir a la sede electrónica: escrito, multa original, pruebas
+ * numeradas, guía de presentación y manifiesto con SHA-256 (lib/paquete.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { FORMATOS_DOCUMENTO, FormatoDocumento, prepararDocumento } from "@/lib/documento";
+import { crearPaquete } from "@/lib/paquete";
+import type { GenerateBundleRequest } from "@/lib/contracts";
+
+export async function POST(req: NextRequest) {
+  try {
+    const peticion: GenerateBundleRequest = await req.json();
+    const formatos = peticion.formats ?? (Object.keys(FORMATOS_DOCUMENTO) as FormatoDocumento[]);
+
+    if (!Array.isArray(formatos) || formatos.length === 0) {
+      return NextResponse.json({ error: `formats debe ser una lista con ${Object.keys(FORMATOS_DOCUMENTO).join(" y/o ")}` }, { status: 400 });
+    }
+    const desconocido = formatos.find((f) => typeof f !== "string" || !Object.keys(FORMATOS_DOCUMENTO).includes(f));
+    if (desconocido !== undefined) {
+      return NextResponse.json({ error: `Formato desconocido: ${desconocido}` }, { status: 400 });
+    }
+    const multa = peticion.multaFile;
+    if (multa && (typeof multa.base64 !== "string" || typeof multa.name !== "string")) {
+      return NextResponse.json({ error: "multaFile debe ser { name, type, base64 }" }, { status: 400 });
+    }
+    const preparado = prepararDocumento(peticion);
+    if ("error" in preparado) {
+      return NextResponse.json({ error: preparado.error }, { status: 400 });
+    }
+
+    const { zip, nombre } = await crearPaquete(preparado.documento, peticion, Array.from(new Set(formatos)));
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${nombre}"`,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Generate bundle error:", err);
+    const msg = err instanceof Error ? err.message : "Error generando el paquete";
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
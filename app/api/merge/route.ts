@@ -0,0 +1,63 @@
+/**
+ * app/api/merge/route.ts
+ *
+ * Fase 3 suelta: fusiona los borradores que envíe el cliente, opcionalmente
+ * con uno de los modelos de MASTER_MODELS.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { MASTER_MODELS } from "@/lib/agents";
+import { mergeDrafts } from "@/lib/pipeline";
+import { getServerApiKeys } from "@/lib/providers";
+import { ESCRITOS } from "@/lib/tramite";
+import type { ApiErrorResponse, MergeRequest, MergeResponse } from "@/lib/contracts";
+
+export const maxDuration = 90;
+
+const esBorrador = (d: unknown): d is MergeRequest["drafts"][number] =>
+  typeof d === "object" &&
+  d !== null &&
+  typeof (d as Record<string, unknown>).agentName === "string" &&
+  typeof (d as Record<string, unknown>).content === "string";
+
+export async function POST(req: NextRequest): Promise<NextResponse<MergeResponse | ApiErrorResponse>> {
+  try {
+    const cuerpo: Partial<MergeRequest> | null = await req.json().catch(() => null);
+    if (!cuerpo || typeof cuerpo !== "object") {
+      return NextResponse.json({ error: "El cuerpo debe ser un objeto JSON" }, { status: 400 });
+    }
+    const { drafts, model, escrito } = cuerpo;
+
+    if (!Array.isArray(drafts) || drafts.length === 0) {
+      return NextResponse.json({ error: "No se proporcionaron borradores" }, { status: 400 });
+    }
+    if (!drafts.every(esBorrador)) {
+      return NextResponse.json({ error: "Cada borrador debe tener agentName y content de texto" }, { status: 400 });
+    }
+    if (escrito !== undefined && !Object.keys(ESCRITOS).includes(escrito)) {
+      return NextResponse.json({ error: `Tipo de escrito desconocido: ${escrito}` }, { status: 400 });
+    }
+    if (model !== undefined && (typeof model !== "object" || model === null)) {
+      return NextResponse.json({ error: "model debe ser un objeto {provider, model}" }, { status: 400 });
+    }
+
+    // Solo los modelos de fusión configurados: el cliente no elige qué se ejecuta con las claves del servidor
+    const elegido = model ? MASTER_MODELS.find((m) => m.provider === model.provider && m.model === model.model) : undefined;
+    if (model && !elegido) {
+      return NextResponse.json({ error: `Modelo de fusión no permitido: ${model.provider}/${model.model}` }, { status: 400 });
+    }
+
+    const apiKeys = getServerApiKeys();
+    if (elegido && !apiKeys[elegido.provider]) {
+      return NextResponse.json({ error: `Sin API key para ${elegido.provider}` }, { status: 400 });
+    }
+
+    return NextResponse.json(await mergeDrafts(apiKeys, drafts, escrito || "reposicion", elegido));
+  } catch (err) {
+    console.error("Merge error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Error interno" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * app/api/parse/route.ts
+ *
+ * Fase 1 suelta: lee la multa y devuelve los datos estructurados (MultaData).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { generateInstructions } from "@/lib/llm";
+import { parseDocument } from "@/lib/parse";
+import { getServerApiKeys } from "@/lib/providers";
+import { detectarTramite } from "@/lib/tramite";
+import type { ApiErrorResponse, ParseRequest, ParseResponse } from "@/lib/contracts";
+
+export const maxDuration = 60;
+
+export async function POST(req: NextRequest): Promise<NextResponse<ParseResponse | ApiErrorResponse>> {
+  try {
+    const cuerpo: Partial<ParseRequest> | null = await req.json().catch(() => null);
+    if (!cuerpo || typeof cuerpo !== "object") {
+      return NextResponse.json({ error: "El cuerpo debe ser un objeto JSON" }, { status: 400 });
+    }
+    const { multaFile } = cuerpo;
+
+    if (!multaFile?.base64) {
+      return NextResponse.json({ error: "No se proporcionó el documento de la multa" }, { status: 400 });
+    }
+    const { base64, type = "", name = "" } = multaFile;
+    if (typeof base64 !== "string" || typeof type !== "string" || typeof name !== "string") {
+      return NextResponse.json({ error: "multaFile debe tener base64, type y name de texto" }, { status: 400 });
+    }
+
+    const apiKeys = getServerApiKeys();
+    if (!apiKeys.openrouter) {
+      return NextResponse.json(
+        { error: "Se necesita OPENROUTER_API_KEY. Configúrala en Vercel." },
+        { status: 500 }
+      );
+    }
+
+    const start = Date.now();
+    const { multaData, warnings } = await parseDocument(
+      apiKeys.openrouter,
+      multaFile.base64,
+      multaFile.type,
+      multaFile.name
+    );
+    return NextResponse.json({
+      multaData,
+      warnings,
+      tramite: detectarTramite(multaData),
+      instructions: generateInstructions(multaData),
+      latencyMs: Date.now() - start,
+    });
+  } catch (err) {
+    console.error("Parse error:", err);
+    return NextResponse.json(
+      { error: `Error al leer el documento: ${err instanceof Error ? err.message : "Error"}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Scale, ArrowLeft, FolderOpen, Download, Trash2, Clock, FileText, Share2, Users } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  Caso, CasoConPlazo, ESTADOS_CASO, EstadoCaso, FicheroCaso,
+  actualizarCaso, borrarCaso, casoDeRegistro, guardarCaso, listarCasos, ordenarPorPlazo, registroDeCaso, resumenDeRegistro, tituloCaso,
+} from "@/lib/casos";
+import type { ApiErrorResponse, CaseRecord, CaseSummary, ListCasesResponse } from "@/lib/contracts";
+import { formatDateEs } from "@/lib/multa";
+import { ResultadoPlazo, formatFechaLarga, hoyIso } from "@/lib/plazos";
+import { ESCRITOS } from "@/lib/tramite";
+
+function colorPlazo(plazo: ResultadoPlazo): string {
+  if (plazo.vencido || plazo.diasRestantes <= 3) return "#f87171";
+  return plazo.diasRestantes <= 7 ? "#fbbf24" : "#4ade80";
+}
+
+function PlazoCaso({ caso, plazo }: CasoConPlazo<CaseSummary>) {
+  if (caso.estado !== "borrador") {
+    return (
+      <p className="text-xs opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+        {caso.fechaPresentacion ? `Presentado el ${formatDateEs(caso.fechaPresentacion)}` : "Presentado"}
+      </p>
+    );
+  }
+  if (!plazo) {
+    return (
+      <p className="text-xs opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+        Sin fecha de notificación: no se puede calcular el plazo
+      </p>
+    );
+  }
+  const color = colorPlazo(plazo);
+  return (
+    <p className="text-xs flex items-center gap-1.5" style={{ color, fontFamily: "JetBrains Mono, monospace" }}>
+      <Clock className="w-3 h-3" />
+      {plazo.vencido
+        ? `Plazo vencido el ${formatFechaLarga(plazo.ultimoDia)}`
+        : `Último día: ${formatFechaLarga(plazo.ultimoDia)} · ${plazo.diasRestantes === 0 ? "hoy" : `quedan ${plazo.diasRestantes} días`}`}
+    </p>
+  );
+}
+
+async function pedir<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data: T | ApiErrorResponse = await res.json();
+  if (!res.ok) throw Object.assign(new Error((data as ApiErrorResponse).error || `Error ${res.status}`), { status: res.status });
+  return data as T;
+}
+
+const descargar = (f: FicheroCaso) => {
+  const url = URL.createObjectURL(f.blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = f.nombre; a.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function CasosPage() {
+  const router = useRouter();
+  const [casos, setCasos] = useState<Caso[] | null>(null);
+  // null: el servidor no tiene historial compartido (CASES_STORAGE sin definir)
+  const [equipo, setEquipo] = useState<CaseSummary[] | null>(null);
+
+  useEffect(() => {
+    listarCasos()
+      .then(setCasos)
+      .catch(() => { setCasos([]); toast.error("No se pudo leer el historial de este navegador"); });
+    pedir<ListCasesResponse>("/api/cases")
+      .then(d => setEquipo(d.casos))
+      .catch(() => setEquipo(null));
+  }, []);
+
+  const compartidos = new Set(equipo?.map(c => c.id));
+
+  const replaceEquipo = (r: CaseRecord) =>
+    setEquipo(prev => prev && [resumenDeRegistro(r), ...prev.filter(c => c.id !== r.id)]);
+
+  const replace = (caso: Caso | null) => {
+    if (caso) setCasos(prev => prev?.map(c => c.id === caso.id ? caso : c) ?? null);
+  };
+
+  const changeEstado = async (id: string, estado: EstadoCaso) => {
+    // La fecha de presentación se conserva al pasar a resuelto
+    const caso = await actualizarCaso(id, c => ({
+      estado,
+      fechaPresentacion: estado === "borrador" ? undefined : c.fechaPresentacion || hoyIso(),
+    }));
+    replace(caso);
+    if (caso && compartidos.has(id)) {
+      pedir<CaseRecord>(`/api/cases/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ estado: caso.estado, fechaPresentacion: caso.fechaPresentacion }),
+      }).then(replaceEquipo).catch(err => toast.error(`Equipo: ${err.message}`));
+    }
+  };
+
+  /** Sube el caso al historial compartido; si ya estaba, lo sobrescribe con la versión local */
+  const share = async (caso: Caso) => {
+    const { id, ...registro } = registroDeCaso(caso);
+    const json = { "Content-Type": "application/json" };
+    try {
+      const r = await pedir<CaseRecord>("/api/cases", { method: "POST", headers: json, body: JSON.stringify({ id, ...registro }) })
+        .catch(err => {
+          if (err.status !== 409) throw err;
+          return pedir<CaseRecord>(`/api/cases/${id}`, { method: "PATCH", headers: json, body: JSON.stringify(registro) });
+        });
+      replaceEquipo(r);
+      toast.success("Caso compartido con el equipo");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "No se pudo compartir el caso");
+    }
+  };
+
+  /** Copia un caso del equipo a este navegador y lo abre */
+  const importar = async (id: string) => {
+    try {
+      const caso = await guardarCaso(casoDeRegistro(await pedir<CaseRecord>(`/api/cases/${id}`)));
+      setCasos(prev => [...(prev || []), caso]);
+      router.push(`/recursos?caso=${id}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "No se pudo abrir el caso del equipo");
+    }
+  };
+
+  const remove = async (caso: Caso) => {
+    if (!confirm(`¿Borrar «${tituloCaso(caso)}» y sus documentos de este navegador?`)) return;
+    await borrarCaso(caso.id);
+    setCasos(prev => prev?.filter(c => c.id !== caso.id) ?? null);
+  };
+
+  const ordenados = casos ? ordenarPorPlazo(casos) : [];
+  const locales = new Set(casos?.map(c => c.id));
+  const delEquipo = equipo ? ordenarPorPlazo(equipo.filter(c => !locales.has(c.id))) : [];
+
+  return (
+    <main className="min-h-screen">
+      <nav className="flex items-center justify-between px-8 py-5 border-b sticky top-0 z-50"
+        style={{ borderColor: "#2a2a38", background: "#0a0a0fee", backdropFilter: "blur(16px)" }}>
+        <div className="flex items-center gap-6">
+          <Link href="/" className="flex items-center gap-2 opacity-50 hover:opacity-100 transition-opacity text-sm">
+            <ArrowLeft className="w-4 h-4" /> Volver
+          </Link>
+          <div className="flex items-center gap-2">
+            <Scale className="w-5 h-5" style={{ color: "#c9a84c" }} />
+            <span className="font-display font-bold text-lg"
+              style={{ background: "linear-gradient(135deg, #e8cc7a, #c9a84c)", WebkitBackgroundClip: "text", WebkitTextFillColor: "transparent" }}>
+              RecursApp
+            </span>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-3xl mx-auto px-8 py-12">
+        <div className="mb-10">
+          <h1 className="font-display text-5xl mb-3">Mis casos</h1>
+          <p className="opacity-60 leading-relaxed" style={{ fontFamily: "Crimson Text, serif", fontSize: "17px" }}>
+            Cada análisis queda guardado en este navegador con sus borradores, el recurso definitivo y los documentos
+            descargados. Arriba, los que vencen antes.
+          </p>
+        </div>
+
+        {casos && casos.length === 0 && (
+          <div className="rounded-sm p-8 text-center" style={{ background: "#111118", border: "1px solid #2a2a38" }}>
+            <FolderOpen className="w-8 h-8 mx-auto mb-3 opacity-40" />
+            <p className="opacity-60 mb-4">Todavía no hay casos guardados.</p>
+            <Link href="/recursos" className="text-sm" style={{ color: "#c9a84c", fontFamily: "JetBrains Mono, monospace" }}>
+              Recurrir una multa →
+            </Link>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {ordenados.map(({ caso, plazo }) => {
+            const estado = ESTADOS_CASO[caso.estado];
+            return (
+              <div key={caso.id} className="rounded-sm p-5"
+                style={{ border: `1px solid ${plazo ? `${colorPlazo(plazo)}30` : "#2a2a38"}`, background: "linear-gradient(160deg, #111118, #1a1a24)" }}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-display text-lg truncate">{tituloCaso(caso)}</div>
+                    <p className="text-xs opacity-50 mt-0.5" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                      {ESCRITOS[caso.escrito].label}
+                      {caso.multaData.importe !== null && ` · ${caso.multaData.importe} €`}
+                      {caso.multaData.fechaInfraccion && ` · infracción del ${formatDateEs(caso.multaData.fechaInfraccion)}`}
+                    </p>
+                    <div className="mt-2"><PlazoCaso caso={caso} plazo={plazo} /></div>
+                  </div>
+                  <select value={caso.estado} onChange={e => changeEstado(caso.id, e.target.value as EstadoCaso)}
+                    className="px-2 py-1 rounded text-xs focus:outline-none flex-shrink-0"
+                    style={{ background: "#0a0a0f", border: `1px solid ${estado.color}40`, color: estado.color, fontFamily: "JetBrains Mono, monospace" }}>
+                    {(Object.keys(ESTADOS_CASO) as EstadoCaso[]).map(e => <option key={e} value={e}>{ESTADOS_CASO[e].label}</option>)}
+                  </select>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 mt-4">
+                  <Link href={`/recursos?caso=${caso.id}`}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded text-xs border transition-all opacity-80 hover:opacity-100"
+                    style={{ borderColor: "#c9a84c40", color: "#c9a84c", fontFamily: "JetBrains Mono, monospace" }}>
+                    <FileText className="w-3 h-3" /> Abrir
+                  </Link>
+                  {equipo && (
+                    <button onClick={() => share(caso)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded text-xs border transition-all opacity-60 hover:opacity-100"
+                      style={{ borderColor: "#2a2a38", color: "#9898b0", fontFamily: "JetBrains Mono, monospace" }}>
+                      <Share2 className="w-3 h-3" /> {compartidos.has(caso.id) ? "Actualizar en el equipo" : "Compartir"}
+                    </button>
+                  )}
+                  {caso.ficheros.map(f => (
+                    <button key={f.fecha} onClick={() => descargar(f)} title={f.nombre}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded text-xs border transition-all opacity-60 hover:opacity-100"
+                      style={{ borderColor: "#2a2a38", color: "#9898b0", fontFamily: "JetBrains Mono, monospace" }}>
+                      <Download className="w-3 h-3" /> {f.nombre.replace(/-\d{10,}(\.(?:docx|pdf|zip))$/, "$1")}
+                    </button>
+                  ))}
+                  <button onClick={() => remove(caso)} className="ml-auto p-1.5 opacity-40 hover:opacity-100 transition-opacity" title="Borrar caso">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {delEquipo.length > 0 && (
+          <div className="mt-12">
+            <h2 className="font-display text-2xl mb-1 flex items-center gap-2">
+              <Users className="w-5 h-5" style={{ color: "#c9a84c" }} /> Casos del equipo
+            </h2>
+            <p className="text-xs opacity-50 mb-4" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+              Compartidos en el servidor por otras personas. Al abrir uno se copia a este navegador.
+            </p>
+            <div className="space-y-3">
+              {delEquipo.map(({ caso, plazo }) => (
+                <div key={caso.id} className="rounded-sm p-5 flex items-start justify-between gap-4"
+                  style={{ border: "1px solid #2a2a38", background: "#111118" }}>
+                  <div className="min-w-0">
+                    <div className="font-display text-lg truncate">{tituloCaso(caso)}</div>
+                    <p className="text-xs opacity-50 mt-0.5" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                      {ESCRITOS[caso.escrito].label}
+                      {caso.multaData.matricula && ` · ${caso.multaData.matricula}`}
+                      {` · ${ESTADOS_CASO[caso.estado].label}`}
+                    </p>
+                    <div className="mt-2"><PlazoCaso caso={caso} plazo={plazo} /></div>
+                  </div>
+                  <button onClick={() => importar(caso.id)}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded text-xs border transition-all opacity-80 hover:opacity-100 flex-shrink-0"
+                    style={{ borderColor: "#c9a84c40", color: "#c9a84c", fontFamily: "JetBrains Mono, monospace" }}>
+                    <FileText className="w-3 h-3" /> Abrir
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
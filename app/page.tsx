@@ -37,17 +37,23 @@ export default function HomePage() {
             RecursApp
           </span>
         </div>
-        <Link href="/recursos"
-          className="flex items-center gap-2 px-5 py-2.5 rounded-sm text-sm font-semibold transition-all hover:scale-[1.02]"
-          style={{
-            background: "linear-gradient(135deg, #c9a84c, #9a7530)",
-            color: "#0a0a0f",
-            fontFamily: "Crimson Text, serif",
-            fontSize: "16px",
-          }}>
-          Recurrir multa
-          <ArrowRight className="w-4 h-4" />
-        </Link>
+        <div className="flex items-center gap-5">
+          <Link href="/casos" className="text-sm opacity-60 hover:opacity-100 transition-opacity"
+            style={{ fontFamily: "JetBrains Mono, monospace", fontSize: "12px" }}>
+            Mis casos
+          </Link>
+          <Link href="/recursos"
+            className="flex items-center gap-2 px-5 py-2.5 rounded-sm text-sm font-semibold transition-all hover:scale-[1.02]"
+            style={{
+              background: "linear-gradient(135deg, #c9a84c, #9a7530)",
+              color: "#0a0a0f",
+              fontFamily: "Crimson Text, serif",
+              fontSize: "16px",
+            }}>
+            Recurrir multa
+            <ArrowRight className="w-4 h-4" />
+          </Link>
+        </div>
       </nav>
 
       {/* Hero */}
@@ -1,13 +1,39 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import {
   Scale, ArrowLeft, Upload, Plus, X, Zap, FileText,
-  Download, AlertCircle, CheckCircle, Clock, ChevronDown, ChevronUp, Star
+  Download, AlertCircle, CheckCircle, Clock, ChevronDown, ChevronUp, Star, RotateCcw, FolderOpen, Package
 } from "lucide-react";
 import toast from "react-hot-toast";
 import { useDropzone } from "react-dropzone";
+import { FIXED_AGENTS, MASTER_MODELS } from "@/lib/agents";
+import { sugerirArgumentos } from "@/lib/argumentos";
+import { Caso, actualizarCaso, guardarCaso, nuevoIdCaso, obtenerCaso } from "@/lib/casos";
+import { readSSE } from "@/lib/sse";
+import type { RevisionCitas } from "@/lib/citas";
+import { FormatoDocumento, documentosCitados } from "@/lib/documento";
+import { MultaData } from "@/lib/multa";
+import { Perfil, cargarPerfiles, guardarPerfiles } from "@/lib/perfiles";
+import { ConfigPlazo, calcularPlazo } from "@/lib/plazos";
+import { comprobarPrescripcion } from "@/lib/prescripcion";
+import { analizarVelocidad } from "@/lib/cinemometro";
+import { revisarSancion } from "@/lib/infracciones";
+import { DeteccionTramite, ESCRITOS, FASES, TipoEscrito } from "@/lib/tramite";
+import MultaDataForm from "@/components/MultaDataForm";
+import ArgumentosPanel from "@/components/ArgumentosPanel";
+import CinemometroPanel from "@/components/CinemometroPanel";
+import CitasPanel, { CitasBadge } from "@/components/CitasPanel";
+import InfraccionesPanel from "@/components/InfraccionesPanel";
+import PerfilesPanel from "@/components/PerfilesPanel";
+import PlantillaPanel from "@/components/PlantillaPanel";
+import PlazoPanel, { PlazoBanner } from "@/components/PlazoPanel";
+import PrescripcionPanel from "@/components/PrescripcionPanel";
+import type {
+  AgentResult, AnalyzeRequest, AnalyzeResult, AnnexDocument, DraftRequest, DraftResponse, GenerateBundleRequest, GenerateDocRequest, MergeRequest, MergeResponse,
+  ParseRequest, ParseResponse, PhaseStatus, SupportDocument
+} from "@/lib/contracts";
 
 interface UploadedFile {
   file: File;
@@ -17,32 +43,166 @@ interface UploadedFile {
   preview?: string;
 }
 
-interface AgentResult {
-  agentId: string;
-  agentName: string;
-  label: string;
-  color: string;
-  status: "pending" | "running" | "done" | "error" | "skipped";
-  content: string;
+interface Phase {
+  status: PhaseStatus | "pending";
+  latencyMs?: number;
   error?: string;
 }
 
+const pendingAgents = (): AgentResult[] =>
+  FIXED_AGENTS.map(a => ({ agentId: a.id, agentName: a.name, label: a.label, color: a.color, status: "pending", content: "" }));
+
+/** Word y OpenDocument: el texto se extrae en el servidor (lib/office.ts) */
+const OFFICE_ACCEPT = {
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+  "application/vnd.oasis.opendocument.text": [".odt"],
+};
+
+const formatLatency = (ms?: number) => (ms === undefined ? "" : `${(ms / 1000).toFixed(1)}s`);
+
+function PhaseCard({ index, label, sublabel, color, status, latencyMs, error, partial }: {
+  index: string; label: string; sublabel: string; color: string;
+  status: Phase["status"] | AgentResult["status"]; latencyMs?: number; error?: string; partial?: string;
+}) {
+  const running = status === "started" || status === "running";
+  const failed = status === "error";
+  const finished = status === "done" || failed || status === "skipped";
+  return (
+    <div className="card-dark rounded-sm p-5" style={{ borderColor: failed ? "#f8717140" : "#2a2a38" }}>
+      <div className="flex items-center gap-3 mb-3">
+        <div className="w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold flex-shrink-0"
+          style={{ background: `${color}20`, border: `1px solid ${color}40`, color, fontFamily: "JetBrains Mono, monospace" }}>
+          {index}
+        </div>
+        <div className="min-w-0">
+          <div className="font-display">{label}</div>
+          <div className="text-xs opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>{sublabel}</div>
+        </div>
+        <div className="ml-auto flex items-center gap-2 text-xs flex-shrink-0"
+          style={{ color: failed ? "#f87171" : status === "skipped" ? "#666688" : color, fontFamily: "JetBrains Mono, monospace", fontSize: "11px" }}>
+          {status === "pending" && <span className="opacity-50">en espera</span>}
+          {running && <><Clock className="w-3.5 h-3.5 animate-spin" /> procesando…</>}
+          {status === "done" && <><CheckCircle className="w-3.5 h-3.5" /> {formatLatency(latencyMs)}</>}
+          {failed && <><AlertCircle className="w-3.5 h-3.5" /> error · {formatLatency(latencyMs)}</>}
+          {status === "skipped" && <span>sin API key</span>}
+        </div>
+      </div>
+      <div className="h-1 rounded-full overflow-hidden" style={{ background: "#1a1a24" }}>
+        {running && <div className="h-full rounded-full shimmer" style={{ width: "65%" }} />}
+        {finished && <div className="h-full rounded-full" style={{ width: "100%", background: failed ? "#f87171" : status === "skipped" ? "#2a2a38" : color }} />}
+      </div>
+      {failed && error && (
+        <p className="mt-3 text-xs" style={{ color: "#f87171", fontFamily: "JetBrains Mono, monospace", wordBreak: "break-word" }}>✗ {error}</p>
+      )}
+      {running && partial && (
+        <div className="mt-3 text-xs whitespace-pre-wrap max-h-24 overflow-hidden opacity-60"
+          style={{ fontFamily: "Crimson Text, serif", fontSize: "14px", color: "#b8b8c8" }}>
+          …{partial.slice(-300)}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function RecursosPage() {
-  const [step, setStep] = useState<1 | 2 | 3 | 4>(1);
+  const [step, setStep] = useState<1 | 2 | 3 | 4 | 5>(1);
   const [multaFile, setMultaFile] = useState<UploadedFile | null>(null);
   const [supportFiles, setSupportFiles] = useState<UploadedFile[]>([]);
   const [additionalContext, setAdditionalContext] = useState("");
+  const [isParsing, setIsParsing] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [agentResults, setAgentResults] = useState<AgentResult[]>([]);
   const [masterRecurso, setMasterRecurso] = useState("");
   const [masterError, setMasterError] = useState("");
+  const [masterCitas, setMasterCitas] = useState<RevisionCitas | null>(null);
   const [instructions, setInstructions] = useState("");
-  const [parsedText, setParsedText] = useState("");
+  const [multaData, setMultaData] = useState<MultaData | null>(null);
+  const [parseWarnings, setParseWarnings] = useState<string[]>([]);
   const [showParsed, setShowParsed] = useState(false);
+  const [supportDocuments, setSupportDocuments] = useState<SupportDocument[]>([]);
   const [expandedAgent, setExpandedAgent] = useState<string | null>(null);
+  const [mergePhase, setMergePhase] = useState<Phase>({ status: "pending" });
+  const [retryingAgent, setRetryingAgent] = useState<string | null>(null);
+  const [mergeModelIdx, setMergeModelIdx] = useState(0);
+  const [isMerging, setIsMerging] = useState(false);
+  const [isBundling, setIsBundling] = useState(false);
+  const [plazoConfig, setPlazoConfig] = useState<ConfigPlazo>({ procedimiento: "alegaciones_trafico" });
+  const [tramite, setTramite] = useState<DeteccionTramite | null>(null);
+  const [escrito, setEscrito] = useState<TipoEscrito>("alegaciones");
+  const [argumentos, setArgumentos] = useState<string[]>([]);
+  const [perfiles, setPerfiles] = useState<Perfil[]>([]);
+  const [perfilId, setPerfilId] = useState<string | null>(null);
+  const [casoId, setCasoId] = useState<string | null>(null);
+  /** null: la plantilla que toca según organismo y escrito */
+  const [plantillaId, setPlantillaId] = useState<string | null>(null);
+
+  // Solo usa setters de estado, que son estables: no cambia entre renders
+  const openCaso = useCallback((caso: Caso) => {
+    setCasoId(caso.id);
+    setMultaData(caso.multaData);
+    setEscrito(caso.escrito);
+    setPlazoConfig(caso.plazoConfig);
+    setArgumentos(caso.argumentos);
+    setAdditionalContext(caso.additionalContext);
+    setPlantillaId(caso.plantilla || null);
+    setAgentResults(caso.agentResults);
+    setMasterRecurso(caso.masterRecurso);
+    setMasterError(caso.masterError || "");
+    setMasterCitas(caso.masterCitas || null);
+    setInstructions(caso.instructions);
+    setSupportDocuments(caso.supportDocuments);
+    setMultaFile(caso.original
+      ? { file: new File([caso.original.blob], caso.original.nombre, { type: caso.original.blob.type }), name: caso.original.nombre, type: caso.original.blob.type }
+      : null);
+    setSupportFiles((caso.pruebas || []).map((f, i) => ({
+      file: new File([f.blob], f.nombre, { type: f.blob.type }),
+      name: f.nombre,
+      type: f.blob.type,
+      context: caso.supportDocuments.find(d => d.index === i + 1)?.context || "",
+    })));
+    setMergePhase({ status: caso.masterError ? "error" : "done" });
+    setStep(5);
+  }, []);
+
+  // localStorage e IndexedDB solo existen en el navegador: se leen tras montar
+  useEffect(() => {
+    const guardados = cargarPerfiles();
+    setPerfiles(guardados);
+    setPerfilId(guardados[0]?.id ?? null);
+
+    const id = new URLSearchParams(window.location.search).get("caso");
+    if (id) {
+      obtenerCaso(id)
+        .then(caso => caso ? openCaso(caso) : toast.error("El caso no está guardado en este navegador"))
+        .catch(() => toast.error("No se pudo abrir el caso"));
+    }
+  }, [openCaso]);
+
+  const updatePerfiles = (lista: Perfil[]) => {
+    setPerfiles(lista);
+    guardarPerfiles(lista);
+  };
+
+  const plazo = useMemo(
+    () => (multaData ? calcularPlazo(multaData.fechaNotificacion, plazoConfig) : null),
+    [multaData, plazoConfig]
+  );
+  const prescripcion = useMemo(
+    () => (multaData ? comprobarPrescripcion(multaData, ESCRITOS[escrito].fase) : null),
+    [multaData, escrito]
+  );
+  const velocidad = useMemo(() => (multaData ? analizarVelocidad(multaData) : null), [multaData]);
+  const revision = useMemo(() => (multaData ? revisarSancion(multaData) : null), [multaData]);
+  const sugerencias = useMemo(
+    () => (multaData ? sugerirArgumentos(multaData, ESCRITOS[escrito].fase) : []),
+    [multaData, escrito]
+  );
+  /** Referencias "Documento nº N" del escrito definitivo frente a la documentación numerada */
+  const citados = useMemo(() => documentosCitados(masterRecurso), [masterRecurso]);
+  const inexistentes = citados.filter(n => !supportDocuments.some(d => d.index === n));
 
   const { getRootProps: getMultaProps, getInputProps: getMultaInputProps, isDragActive: isMultaDrag } = useDropzone({
-    accept: { "application/pdf": [".pdf"], "image/*": [".jpg", ".jpeg", ".png", ".webp"] },
+    accept: { "application/pdf": [".pdf"], "image/*": [".jpg", ".jpeg", ".png", ".webp"], ...OFFICE_ACCEPT },
     maxFiles: 1,
     onDrop: (files) => {
       if (files[0]) {
@@ -55,7 +215,7 @@ export default function RecursosPage() {
   });
 
   const { getRootProps: getSupportProps, getInputProps: getSupportInputProps, isDragActive: isSupportDrag } = useDropzone({
-    accept: { "application/pdf": [".pdf"], "image/*": [], "text/*": [".txt"] },
+    accept: { "application/pdf": [".pdf"], "image/*": [], "text/*": [".txt"], ...OFFICE_ACCEPT },
     onDrop: (files) => setSupportFiles(prev => [...prev, ...files.map(f => ({ file: f, name: f.name, type: f.type, context: "" }))]),
   });
 
@@ -67,63 +227,284 @@ export default function RecursosPage() {
       r.readAsDataURL(file);
     });
 
-  const handleAnalyze = async () => {
+  const postJson = async <Req, Res>(url: string, body: Req): Promise<Res> => {
+    const res = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+    return data;
+  };
+
+  const applyResult = (data: AnalyzeResult) => {
+    setAgentResults(data.agentResults || []);
+    setMasterRecurso(data.masterRecurso || "");
+    setMasterError(data.masterError || "");
+    setMasterCitas(data.masterCitas || null);
+    setInstructions(data.instructions || "");
+    if (data.multaData) setMultaData(data.multaData);
+    setSupportDocuments(data.supportDocuments || []);
+    if (data.escrito) setEscrito(data.escrito);
+  };
+
+  /** Restaura un caso del historial directamente en el paso de resultados */
+  /** Guarda el análisis en el historial; si se regenera, sobrescribe el mismo caso */
+  const persistCaso = async (data: AnalyzeResult) => {
+    try {
+      const previo = casoId ? await obtenerCaso(casoId) : undefined;
+      const caso = await guardarCaso({
+        ...(previo || { id: nuevoIdCaso(), creado: new Date().toISOString(), estado: "borrador", ficheros: [] }),
+        actualizado: "",
+        multaData: data.multaData,
+        escrito: data.escrito,
+        plazoConfig,
+        argumentos,
+        additionalContext,
+        plantilla: plantillaId || undefined,
+        agentResults: data.agentResults,
+        masterRecurso: data.masterRecurso,
+        masterError: data.masterError,
+        masterCitas: data.masterCitas,
+        instructions: data.instructions,
+        supportDocuments: data.supportDocuments,
+        original: multaFile ? { nombre: multaFile.name, fecha: new Date().toISOString(), blob: multaFile.file } : previo?.original,
+        pruebas: supportFiles.map(sf => ({ nombre: sf.name, fecha: new Date().toISOString(), blob: sf.file })),
+      });
+      setCasoId(caso.id);
+    } catch {
+      toast.error("No se pudo guardar el caso en este navegador");
+    }
+  };
+
+  /** Cambios posteriores (reintentos, re-fusión, descargas) sobre el caso abierto */
+  const updateCaso = (cambios: (c: Caso) => Partial<Caso>) => {
+    if (casoId) actualizarCaso(casoId, cambios).catch(() => toast.error("No se pudo actualizar el caso guardado"));
+  };
+
+  const choosePlantilla = (id: string | null) => {
+    setPlantillaId(id);
+    updateCaso(() => ({ plantilla: id || undefined }));
+  };
+
+  /** El tipo de escrito arrastra su plazo; el usuario puede cambiar ambos después */
+  const chooseEscrito = (tipo: TipoEscrito) => {
+    setEscrito(tipo);
+    setPlazoConfig(c => ({ ...c, procedimiento: ESCRITOS[tipo].plazo }));
+  };
+
+  /** Fase 1 por separado: el usuario revisa y corrige los datos antes de redactar */
+  const handleParse = async () => {
     if (!multaFile) { toast.error("Sube el documento de la multa primero"); return; }
+    setIsParsing(true);
+    try {
+      const data = await postJson<ParseRequest, ParseResponse>("/api/parse", {
+        multaFile: { name: multaFile.name, type: multaFile.type, base64: await fileToBase64(multaFile.file) },
+      });
+      setMultaData(data.multaData);
+      setParseWarnings(data.warnings);
+      setTramite(data.tramite);
+      chooseEscrito(data.tramite.escrito);
+      setArgumentos([]);
+      setCasoId(null);
+      setInstructions(data.instructions);
+      setStep(2);
+    } catch (err) {
+      toast.error("Error: " + (err instanceof Error ? err.message : "Desconocido"));
+    }
+    setIsParsing(false);
+  };
+
+  /** Redacta con los datos revisados en el paso 2: buildUserPrompt recibe exactamente estos */
+  const handleAnalyze = async () => {
+    if (!multaData) { toast.error("Revisa primero los datos de la multa"); return; }
     setIsAnalyzing(true);
-    setStep(3);
+    setAgentResults(pendingAgents());
+    setMasterRecurso(""); setMasterError(""); setMasterCitas(null);
+    setMergePhase({ status: "pending" });
+    setStep(4);
     try {
-      const multaBase64 = await fileToBase64(multaFile.file);
       const supportFilesData = await Promise.all(
         supportFiles.map(async sf => ({ name: sf.name, type: sf.type, context: sf.context || "", base64: await fileToBase64(sf.file) }))
       );
       const response = await fetch("/api/analyze", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
         body: JSON.stringify({
-          multaFile: { name: multaFile.name, type: multaFile.type, base64: multaBase64 },
+          multaData,
+          plazo: plazoConfig,
+          escrito,
+          argumentos,
           supportFiles: supportFilesData,
           additionalContext,
-        }),
+        } satisfies AnalyzeRequest),
       });
-      if (!response.ok) {
-        const err = await response.json();
+      if (!response.ok || !response.body) {
+        const err = await response.json().catch(() => ({}));
         throw new Error(err.error || "Error al analizar");
       }
-      const data = await response.json();
-      setAgentResults(data.agentResults || []);
-      setMasterRecurso(data.masterRecurso || "");
-      setMasterError(data.masterError || "");
-      setInstructions(data.instructions || "");
-      if (data.parsedText) setParsedText(data.parsedText);
-      setStep(4);
+
+      // Se rellenan desde el callback del stream
+      const outcome: { result?: AnalyzeResult; error?: string } = {};
+      await readSSE(response.body, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        switch (event) {
+          case "agent":
+            setAgentResults(prev => prev.map(a => a.agentId === payload.agentId
+              ? { ...a, ...payload, content: payload.content ?? a.content }
+              : a));
+            break;
+          case "agent-delta":
+            setAgentResults(prev => prev.map(a => a.agentId === payload.agentId ? { ...a, content: a.content + payload.delta } : a));
+            break;
+          case "merge":
+            setMergePhase({ status: payload.status, latencyMs: payload.latencyMs, error: payload.error });
+            if (payload.content !== undefined) setMasterRecurso(payload.content);
+            break;
+          case "merge-delta":
+            setMasterRecurso(prev => prev + payload.delta);
+            break;
+          case "result":
+            outcome.result = payload;
+            break;
+          case "error":
+            outcome.error = payload.error;
+            break;
+        }
+      });
+
+      if (!outcome.result) throw new Error(outcome.error || "La conexión se cerró antes de terminar");
+      applyResult(outcome.result);
+      await persistCaso(outcome.result);
+      setStep(5);
     } catch (err) {
       toast.error("Error: " + (err instanceof Error ? err.message : "Desconocido"));
-      setStep(2);
+      setStep(3);
     }
     setIsAnalyzing(false);
   };
 
-  const handleDownload = async (content: string, filename: string) => {
+  const handleRetryAgent = async (agentId: string) => {
+    setRetryingAgent(agentId);
+    try {
+      const result = await postJson<DraftRequest, DraftResponse>("/api/draft", {
+        agentId,
+        multaData: multaData!,
+        supportDocuments,
+        additionalContext,
+        escrito,
+        argumentos,
+      });
+      setAgentResults(prev => prev.map(a => a.agentId === agentId ? result : a));
+      updateCaso(c => ({ agentResults: c.agentResults.map(a => a.agentId === agentId ? result : a) }));
+      if (result.status === "done") toast.success(`${result.label}: borrador generado`);
+      else toast.error(result.error || "El agente volvió a fallar");
+    } catch (err) {
+      toast.error("Error: " + (err instanceof Error ? err.message : "Desconocido"));
+    }
+    setRetryingAgent(null);
+  };
+
+  const handleRemerge = async () => {
+    setIsMerging(true);
+    try {
+      const drafts = agentResults
+        .filter(r => r.status === "done" && r.content)
+        .map(r => ({ agentName: r.label, content: r.content }));
+      const result = await postJson<MergeRequest, MergeResponse>("/api/merge", { drafts, model: MASTER_MODELS[mergeModelIdx], escrito });
+      if (result.masterRecurso) {
+        setMasterRecurso(result.masterRecurso);
+        setMasterCitas(result.masterCitas || null);
+        updateCaso(() => ({ masterRecurso: result.masterRecurso, masterCitas: result.masterCitas || null, masterError: result.masterError }));
+      }
+      setMasterError(result.masterError || "");
+      if (result.masterError) toast.error(result.masterError);
+      else toast.success("Recurso definitivo regenerado");
+    } catch (err) {
+      toast.error("Error: " + (err instanceof Error ? err.message : "Desconocido"));
+    }
+    setIsMerging(false);
+  };
+
+  /**
+   * Índice y anexo del documento con la numeración que recibió el prompt.
+   * Para el .docx/PDF solo viajan enteras las imágenes; para el ZIP, todas.
+   */
+  const annexDocuments = (soloImagenes = true): Promise<AnnexDocument[]> =>
+    Promise.all(supportDocuments.map(async ({ index, name, context, kind }) => {
+      const fichero = supportFiles[index - 1];
+      if ((soloImagenes && kind !== "image") || fichero?.name !== name) return { index, name, context, kind };
+      return { index, name, context, kind, type: fichero.type, base64: await fileToBase64(fichero.file) };
+    }));
+
+  /** Descarga el fichero generado y lo guarda con el caso */
+  const saveDownload = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url; a.download = filename; a.click();
+    URL.revokeObjectURL(url);
+    updateCaso(c => ({ ficheros: [...c.ficheros, { nombre: filename, fecha: new Date().toISOString(), blob }] }));
+  };
+
+  const handleDownload = async (content: string, nombre: string, format: FormatoDocumento = "docx") => {
+    const filename = `${nombre}-${Date.now()}.${format}`;
     try {
       const res = await fetch("/api/generate-doc", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content, instructions }),
+        body: JSON.stringify({
+          content,
+          instructions,
+          plazo,
+          escrito,
+          recurrente: perfiles.find(p => p.id === perfilId) || null,
+          multaData,
+          format,
+          plantilla: plantillaId || undefined,
+          supportDocuments: await annexDocuments(),
+        } satisfies GenerateDocRequest),
       });
-      if (!res.ok) throw new Error("Error generando documento");
-      const blob = await res.blob();
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url; a.download = filename; a.click();
-      URL.revokeObjectURL(url);
+      if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || "Error generando documento");
+      saveDownload(await res.blob(), filename);
       toast.success("Documento descargado");
-    } catch { toast.error("Error al generar el documento"); }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Error al generar el documento");
+    }
+  };
+
+  /** ZIP para la sede electrónica: escrito en .docx y PDF, multa original, pruebas numeradas, guía y manifiesto */
+  const handleBundle = async () => {
+    setIsBundling(true);
+    try {
+      const res = await fetch("/api/generate-bundle", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content: masterRecurso,
+          instructions,
+          plazo,
+          escrito,
+          recurrente: perfiles.find(p => p.id === perfilId) || null,
+          multaData,
+          plantilla: plantillaId || undefined,
+          supportDocuments: await annexDocuments(false),
+          multaFile: multaFile ? { name: multaFile.name, type: multaFile.type, base64: await fileToBase64(multaFile.file) } : null,
+        } satisfies GenerateBundleRequest),
+      });
+      if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || "Error generando el paquete");
+      const nombre = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || "recurso.zip";
+      saveDownload(await res.blob(), nombre.replace(/\.zip$/, `-${Date.now()}.zip`));
+      toast.success("Paquete para presentar descargado");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Error al generar el paquete");
+    }
+    setIsBundling(false);
   };
 
   const handleReset = () => {
     setStep(1); setMultaFile(null); setSupportFiles([]); setAdditionalContext("");
-    setAgentResults([]); setMasterRecurso(""); setMasterError("");
-    setInstructions(""); setParsedText(""); setShowParsed(false); setExpandedAgent(null);
+    setAgentResults([]); setMasterRecurso(""); setMasterError(""); setMasterCitas(null);
+    setInstructions(""); setMultaData(null); setParseWarnings([]); setShowParsed(false); setExpandedAgent(null);
+    setSupportDocuments([]); setPlazoConfig({ procedimiento: "alegaciones_trafico" });
+    setTramite(null); setEscrito("alegaciones"); setArgumentos([]); setCasoId(null); setPlantillaId(null);
+    setMergePhase({ status: "pending" });
   };
 
   const successCount = agentResults.filter(r => r.status === "done").length;
@@ -144,11 +525,14 @@ export default function RecursosPage() {
             </span>
           </div>
         </div>
+        <Link href="/casos" className="flex items-center gap-2 opacity-60 hover:opacity-100 transition-opacity text-sm">
+          <FolderOpen className="w-4 h-4" /> Mis casos
+        </Link>
       </nav>
 
       {/* Steps indicator */}
       <div className="flex items-center justify-center gap-0 px-8 py-8">
-        {[{ n: 1, label: "Multa" }, { n: 2, label: "Contexto" }, { n: 3, label: "Analizando" }, { n: 4, label: "Recursos" }].map(({ n, label }, i) => (
+        {[{ n: 1, label: "Multa" }, { n: 2, label: "Revisión" }, { n: 3, label: "Contexto" }, { n: 4, label: "Analizando" }, { n: 5, label: "Recursos" }].map(({ n, label }, i) => (
           <div key={n} className="flex items-center">
             <div className="flex flex-col items-center">
               <div className="w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold transition-all"
@@ -165,7 +549,7 @@ export default function RecursosPage() {
                 {label}
               </span>
             </div>
-            {i < 3 && <div className="w-16 h-px mx-2 mb-4" style={{ background: step > n ? "#c9a84c60" : "#2a2a38" }} />}
+            {i < 4 && <div className="w-12 h-px mx-2 mb-4" style={{ background: step > n ? "#c9a84c60" : "#2a2a38" }} />}
           </div>
         ))}
       </div>
@@ -176,7 +560,7 @@ export default function RecursosPage() {
         {step === 1 && (
           <div className="animate-fade-up">
             <h1 className="font-display text-4xl mb-2">Sube tu multa</h1>
-            <p className="opacity-60 mb-8">PDF o imagen de la notificación.</p>
+            <p className="opacity-60 mb-8">PDF, imagen o documento Word/ODT de la notificación.</p>
             <div {...getMultaProps()}
               className={`border-2 border-dashed rounded-sm p-12 text-center cursor-pointer transition-all ${isMultaDrag ? "dropzone-active" : ""}`}
               style={{ borderColor: multaFile ? "#c9a84c" : "#2a2a38", background: multaFile ? "#c9a84c08" : "#111118" }}>
@@ -202,25 +586,113 @@ export default function RecursosPage() {
                   </div>
                   <div>
                     <p className="font-display text-xl mb-1">Arrastra aquí tu multa</p>
-                    <p className="opacity-50 text-sm">o haz clic para seleccionar · PDF o imagen</p>
+                    <p className="opacity-50 text-sm">o haz clic para seleccionar · PDF, imagen, DOCX u ODT</p>
                   </div>
                 </div>
               )}
             </div>
             {multaFile && (
-              <button onClick={() => setStep(2)} className="mt-6 w-full py-4 rounded-sm font-semibold text-lg transition-all hover:scale-[1.01]"
+              <button onClick={handleParse} disabled={isParsing}
+                className="mt-6 w-full py-4 rounded-sm font-semibold text-lg transition-all hover:scale-[1.01] flex items-center justify-center gap-3 disabled:opacity-70"
                 style={{ background: "linear-gradient(135deg, #c9a84c, #9a7530)", color: "#0a0a0f", fontFamily: "Playfair Display, serif" }}>
-                Continuar →
+                {isParsing ? <><Clock className="w-5 h-5 animate-spin" /> Leyendo la multa…</> : "Continuar →"}
               </button>
             )}
           </div>
         )}
 
-        {/* STEP 2 */}
-        {step === 2 && (
+        {/* STEP 2: Revisión de los datos extraídos */}
+        {step === 2 && multaData && (
           <div className="animate-fade-up">
             <div className="flex items-center gap-4 mb-2">
               <button onClick={() => setStep(1)} className="opacity-50 hover:opacity-100"><ArrowLeft className="w-5 h-5" /></button>
+              <h1 className="font-display text-4xl">Revisa los datos</h1>
+            </div>
+            <p className="opacity-60 mb-8 ml-9">
+              Esto es lo que hemos leído de la multa. Corrige cualquier error: los borradores se redactan exactamente con estos datos.
+            </p>
+            <div className="card-dark rounded-sm p-6 mb-6" style={{ borderColor: "#2a2a38" }}>
+              <MultaDataForm value={multaData} onChange={setMultaData} warnings={parseWarnings} />
+            </div>
+            <div className="card-dark rounded-sm p-6 mb-6" style={{ borderColor: "#2a2a38" }}>
+              <p className="text-xs uppercase tracking-widest mb-3 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                Qué escrito presentar
+              </p>
+              {tramite && (
+                <p className="text-sm mb-3 opacity-70">
+                  Hemos identificado la notificación como <strong style={{ color: "#c9a84c" }}>{FASES[tramite.fase]}</strong>
+                  {tramite.indicio ? <> (el documento dice «{tramite.indicio}»)</> : " (no hay indicios claros: revísalo)"}.
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2 mb-6">
+                {(Object.keys(ESCRITOS) as TipoEscrito[]).map(tipo => (
+                  <button key={tipo} onClick={() => chooseEscrito(tipo)}
+                    className="px-3 py-2 rounded-sm text-xs border transition-all"
+                    style={{
+                      borderColor: escrito === tipo ? "#c9a84c" : "#2a2a38",
+                      background: escrito === tipo ? "#c9a84c15" : "transparent",
+                      color: escrito === tipo ? "#c9a84c" : "#9898b0",
+                      fontFamily: "JetBrains Mono, monospace",
+                    }}>
+                    {ESCRITOS[tipo].label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs uppercase tracking-widest mb-3 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                Plazo para presentarlo
+              </p>
+              <PlazoPanel plazo={plazo} config={plazoConfig} onChange={setPlazoConfig} />
+              {prescripcion && (
+                <>
+                  <p className="text-xs uppercase tracking-widest mb-3 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                    Prescripción y caducidad
+                  </p>
+                  <PrescripcionPanel comprobacion={prescripcion} />
+                </>
+              )}
+              {revision && revision.articulos.length > 0 && (
+                <>
+                  <p className="text-xs uppercase tracking-widest mt-6 mb-3 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                    Infracción y sanción
+                  </p>
+                  <InfraccionesPanel revision={revision} />
+                </>
+              )}
+              {velocidad && multaData && (
+                <>
+                  <p className="text-xs uppercase tracking-widest mt-6 mb-3 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                    Cinemómetro y tramo de sanción
+                  </p>
+                  <CinemometroPanel analisis={velocidad} importe={multaData.importe} puntos={multaData.puntos} />
+                </>
+              )}
+            </div>
+            <div className="card-dark rounded-sm p-6 mb-6" style={{ borderColor: "#2a2a38" }}>
+              <p className="text-xs uppercase tracking-widest mb-3 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                Argumentos de la biblioteca · los marcados se alegarán obligatoriamente
+              </p>
+              <ArgumentosPanel sugerencias={sugerencias} value={argumentos} onChange={setArgumentos} />
+            </div>
+            <div className="flex gap-3">
+              <button onClick={handleParse} disabled={isParsing}
+                className="flex items-center gap-2 px-5 py-4 rounded-sm text-sm border transition-all opacity-70 hover:opacity-100 disabled:opacity-30"
+                style={{ borderColor: "#2a2a38", color: "#9898b0", fontFamily: "JetBrains Mono, monospace" }}>
+                <RotateCcw className={`w-4 h-4 ${isParsing ? "animate-spin" : ""}`} /> Volver a leer
+              </button>
+              <button onClick={() => setStep(3)}
+                className="flex-1 py-4 rounded-sm font-semibold text-lg transition-all hover:scale-[1.01]"
+                style={{ background: "linear-gradient(135deg, #c9a84c, #9a7530)", color: "#0a0a0f", fontFamily: "Playfair Display, serif" }}>
+                Datos correctos, continuar →
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* STEP 3 */}
+        {step === 3 && (
+          <div className="animate-fade-up">
+            <div className="flex items-center gap-4 mb-2">
+              <button onClick={() => setStep(2)} className="opacity-50 hover:opacity-100"><ArrowLeft className="w-5 h-5" /></button>
               <h1 className="font-display text-4xl">Contexto adicional</h1>
             </div>
             <p className="opacity-60 mb-8 ml-9">Opcional pero recomendado.</p>
@@ -230,7 +702,10 @@ export default function RecursosPage() {
               <input {...getSupportInputProps()} />
               <div className="flex flex-col items-center gap-3">
                 <Plus className="w-8 h-8 opacity-30" />
-                <p className="opacity-50 text-sm">Añadir documentación de apoyo (legislación, fotos…)</p>
+                <p className="opacity-50 text-sm">Añadir documentación de apoyo (legislación, fotos, recursos previos en Word…)</p>
+                <p className="text-xs opacity-30" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                  Se lee su contenido y el recurso lo cita como prueba numerada
+                </p>
               </div>
             </div>
             {supportFiles.length > 0 && (
@@ -239,7 +714,9 @@ export default function RecursosPage() {
                   <div key={idx} className="card-dark rounded-sm p-4" style={{ borderColor: "#2a2a38" }}>
                     <div className="flex items-center justify-between mb-2">
                       <span className="text-sm font-semibold truncate max-w-xs flex items-center gap-2">
-                        <FileText className="w-4 h-4 flex-shrink-0" style={{ color: "#c9a84c" }} /> {sf.name}
+                        <FileText className="w-4 h-4 flex-shrink-0" style={{ color: "#c9a84c" }} />
+                        <span className="text-xs opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>Doc. nº {idx + 1}</span>
+                        {sf.name}
                       </span>
                       <button onClick={() => setSupportFiles(p => p.filter((_, i) => i !== idx))} className="opacity-40 hover:opacity-100"><X className="w-4 h-4" /></button>
                     </div>
@@ -268,44 +745,24 @@ export default function RecursosPage() {
           </div>
         )}
 
-        {/* STEP 3: Analyzing */}
-        {step === 3 && (
+        {/* STEP 4: Analyzing */}
+        {step === 4 && (
           <div className="animate-fade-up">
             <h1 className="font-display text-4xl mb-2">Trabajando…</h1>
-            <p className="opacity-60 mb-8">4 fases: parseo → 3 borradores → recurso definitivo.</p>
+            <p className="opacity-60 mb-8">{agentResults.length} borradores en paralelo → recurso definitivo.</p>
             <div className="space-y-4">
-              {[
-                { label: "Leyendo el documento", sublabel: "OpenRouter · parseo visual", color: "#c9a84c" },
-                { label: "Agente Mistral Small", sublabel: "redactando borrador 1", color: "#f97316" },
-                { label: "Agente Llama 3.3 70B", sublabel: "redactando borrador 2", color: "#8b5cf6" },
-                { label: "Agente DeepSeek V3", sublabel: "redactando borrador 3", color: "#06b6d4" },
-                { label: "Agente Maestro", sublabel: "Mistral Large fusionando los 3 borradores", color: "#e8cc7a" },
-              ].map((item, i) => (
-                <div key={i} className="card-dark rounded-sm p-5" style={{ borderColor: "#2a2a38" }}>
-                  <div className="flex items-center gap-3 mb-3">
-                    <div className="w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold flex-shrink-0"
-                      style={{ background: `${item.color}20`, border: `1px solid ${item.color}40`, color: item.color, fontFamily: "JetBrains Mono, monospace" }}>
-                      {i === 4 ? "★" : i + 1}
-                    </div>
-                    <div>
-                      <div className="font-display">{item.label}</div>
-                      <div className="text-xs opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>{item.sublabel}</div>
-                    </div>
-                    <div className="ml-auto flex items-center gap-2 text-xs" style={{ color: item.color, fontFamily: "JetBrains Mono, monospace", fontSize: "11px" }}>
-                      <Clock className="w-3.5 h-3.5 animate-spin" /> procesando…
-                    </div>
-                  </div>
-                  <div className="h-1 rounded-full overflow-hidden" style={{ background: "#1a1a24" }}>
-                    <div className="h-full rounded-full shimmer" style={{ width: "65%" }} />
-                  </div>
-                </div>
+              {agentResults.map((agent, i) => (
+                <PhaseCard key={agent.agentId} index={String(i + 1)} label={agent.agentName} sublabel={agent.label}
+                  color={agent.color} status={agent.status} latencyMs={agent.latencyMs} error={agent.error} partial={agent.content} />
               ))}
+              <PhaseCard index="★" label="Agente Maestro" sublabel="fusionando los borradores" color="#e8cc7a"
+                status={mergePhase.status} latencyMs={mergePhase.latencyMs} error={mergePhase.error} partial={masterRecurso} />
             </div>
           </div>
         )}
 
-        {/* STEP 4: Results */}
-        {step === 4 && (
+        {/* STEP 5: Results */}
+        {step === 5 && (
           <div className="animate-fade-up">
             <div className="mb-8">
               <div className="flex items-center gap-2 mb-2">
@@ -317,6 +774,29 @@ export default function RecursosPage() {
               <h1 className="font-display text-4xl">Tu recurso está listo</h1>
             </div>
 
+            <PlazoBanner plazo={plazo} />
+            {prescripcion?.hallazgos.some(h => h.estado === "favorable") && (
+              <div className="mb-6">
+                <PrescripcionPanel comprobacion={{ ...prescripcion, hallazgos: prescripcion.hallazgos.filter(h => h.estado === "favorable") }} />
+              </div>
+            )}
+
+            <div className="card-dark rounded-sm p-6 mb-6" style={{ borderColor: "#2a2a38" }}>
+              <p className="text-xs uppercase tracking-widest mb-3 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                Recurrente
+              </p>
+              <PerfilesPanel perfiles={perfiles} value={perfilId} onSelect={setPerfilId} onChange={updatePerfiles} />
+            </div>
+
+            {multaData && (
+              <div className="card-dark rounded-sm p-6 mb-6" style={{ borderColor: "#2a2a38" }}>
+                <p className="text-xs uppercase tracking-widest mb-3 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                  Plantilla del documento
+                </p>
+                <PlantillaPanel multaData={multaData} escrito={escrito} value={plantillaId} onChange={choosePlantilla} />
+              </div>
+            )}
+
             {/* RECURSO DEFINITIVO */}
             <div className="rounded-sm overflow-hidden mb-8"
               style={{ border: "2px solid #c9a84c60", background: "linear-gradient(160deg, #1a1508, #1a1a24)", boxShadow: "0 0 40px #c9a84c15" }}>
@@ -328,22 +808,61 @@ export default function RecursosPage() {
                     <Star className="w-5 h-5" style={{ color: "#0a0a0f" }} />
                   </div>
                   <div>
-                    <div className="font-display text-xl" style={{ color: "#e8cc7a" }}>Recurso Definitivo</div>
+                    <div className="font-display text-xl" style={{ color: "#e8cc7a" }}>{ESCRITOS[escrito].label} · definitivo</div>
                     <div className="text-xs mt-0.5" style={{ color: "#c9a84c", fontFamily: "JetBrains Mono, monospace" }}>
                       Fusión de {successCount} borradores · Mistral Large
                     </div>
+                    {successCount > 1 && (
+                      <div className="flex items-center gap-2 mt-2">
+                        <select value={mergeModelIdx} onChange={e => setMergeModelIdx(Number(e.target.value))}
+                          className="px-2 py-1 rounded text-xs focus:outline-none"
+                          style={{ background: "#0a0a0f", border: "1px solid #2a2a38", color: "#9898b0", fontFamily: "JetBrains Mono, monospace" }}>
+                          {MASTER_MODELS.map((m, i) => <option key={m.model} value={i}>{m.model}</option>)}
+                        </select>
+                        <button onClick={handleRemerge} disabled={isMerging}
+                          className="flex items-center gap-1 px-2 py-1 rounded text-xs border transition-all opacity-60 hover:opacity-100 disabled:opacity-30"
+                          style={{ borderColor: "#c9a84c40", color: "#c9a84c", fontFamily: "JetBrains Mono, monospace" }}>
+                          <RotateCcw className={`w-3 h-3 ${isMerging ? "animate-spin" : ""}`} /> Re-fusionar
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
                 {masterRecurso && (
-                  <button
-                    onClick={() => handleDownload(masterRecurso, `recurso-DEFINITIVO-${Date.now()}.docx`)}
-                    className="flex items-center gap-2 px-5 py-2.5 rounded-sm font-semibold transition-all hover:scale-[1.02]"
-                    style={{ background: "linear-gradient(135deg, #c9a84c, #9a7530)", color: "#0a0a0f", fontFamily: "Crimson Text, serif", fontSize: "16px", boxShadow: "0 0 20px #c9a84c30" }}>
-                    <Download className="w-4 h-4" /> Descargar .docx
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleDownload(masterRecurso, "recurso-DEFINITIVO")}
+                      className="flex items-center gap-2 px-5 py-2.5 rounded-sm font-semibold transition-all hover:scale-[1.02]"
+                      style={{ background: "linear-gradient(135deg, #c9a84c, #9a7530)", color: "#0a0a0f", fontFamily: "Crimson Text, serif", fontSize: "16px", boxShadow: "0 0 20px #c9a84c30" }}>
+                      <Download className="w-4 h-4" /> Descargar .docx
+                    </button>
+                    <button
+                      onClick={() => handleDownload(masterRecurso, "recurso-DEFINITIVO", "pdf")}
+                      title="PDF/A, el formato que piden las sedes electrónicas"
+                      className="flex items-center gap-2 px-4 py-2.5 rounded-sm border transition-all opacity-80 hover:opacity-100"
+                      style={{ borderColor: "#c9a84c60", color: "#c9a84c", fontFamily: "Crimson Text, serif", fontSize: "16px" }}>
+                      <Download className="w-4 h-4" /> PDF
+                    </button>
+                    <button
+                      onClick={handleBundle}
+                      disabled={isBundling}
+                      title="ZIP con el escrito, la multa original, las pruebas numeradas, la guía y un manifiesto SHA-256"
+                      className="flex items-center gap-2 px-4 py-2.5 rounded-sm border transition-all opacity-80 hover:opacity-100 disabled:opacity-40"
+                      style={{ borderColor: "#c9a84c60", color: "#c9a84c", fontFamily: "Crimson Text, serif", fontSize: "16px" }}>
+                      <Package className="w-4 h-4" /> {isBundling ? "Preparando…" : "Paquete .zip"}
+                    </button>
+                  </div>
                 )}
               </div>
 
+              {masterRecurso && masterCitas && (
+                <div className="px-6 pt-6">
+                  <p className="text-xs uppercase tracking-widest mb-3 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                    Citas legales · revisa las marcadas antes de presentar
+                  </p>
+                  <CitasPanel revision={masterCitas} />
+                </div>
+              )}
               {masterRecurso ? (
                 <div className="px-6 py-6">
                   <div className="prose-legal whitespace-pre-wrap max-h-[600px] overflow-y-auto pr-2"
@@ -361,32 +880,79 @@ export default function RecursosPage() {
               )}
             </div>
 
-            {/* Datos parseados */}
-            {parsedText && (
+            {/* Datos extraídos (editables) */}
+            {multaData && (
               <div className="rounded-sm overflow-hidden mb-6" style={{ border: "1px solid #2a2a38", background: "#111118" }}>
                 <button onClick={() => setShowParsed(p => !p)}
                   className="w-full flex items-center justify-between px-6 py-4 hover:opacity-80 transition-opacity">
                   <div className="flex items-center gap-3">
                     <FileText className="w-4 h-4" style={{ color: "#c9a84c" }} />
                     <span className="font-display text-base">Datos extraídos del documento</span>
-                    <span className="text-xs px-2 py-0.5 rounded"
-                      style={{ background: "#4ade8015", color: "#4ade80", border: "1px solid #4ade8030", fontFamily: "JetBrains Mono, monospace" }}>
-                      ✓ Parseado
-                    </span>
+                    {parseWarnings.length > 0 ? (
+                      <span className="text-xs px-2 py-0.5 rounded"
+                        style={{ background: "#f8717115", color: "#f87171", border: "1px solid #f8717130", fontFamily: "JetBrains Mono, monospace" }}>
+                        ⚠ Revisar
+                      </span>
+                    ) : (
+                      <span className="text-xs px-2 py-0.5 rounded"
+                        style={{ background: "#4ade8015", color: "#4ade80", border: "1px solid #4ade8030", fontFamily: "JetBrains Mono, monospace" }}>
+                        ✓ Parseado
+                      </span>
+                    )}
                   </div>
                   {showParsed ? <ChevronUp className="w-4 h-4 opacity-40" /> : <ChevronDown className="w-4 h-4 opacity-40" />}
                 </button>
                 {showParsed && (
-                  <div className="px-6 pb-6 border-t" style={{ borderColor: "#1e1e2a" }}>
-                    <pre className="mt-4 text-xs leading-relaxed whitespace-pre-wrap overflow-auto max-h-72"
-                      style={{ fontFamily: "JetBrains Mono, monospace", color: "#9898b0" }}>
-                      {parsedText}
-                    </pre>
+                  <div className="px-6 pb-6 pt-4 border-t" style={{ borderColor: "#1e1e2a" }}>
+                    <MultaDataForm value={multaData} onChange={setMultaData} warnings={parseWarnings} />
+                    <button onClick={handleAnalyze} disabled={isAnalyzing}
+                      className="mt-6 flex items-center gap-2 px-5 py-2.5 rounded-sm text-sm border transition-all opacity-80 hover:opacity-100"
+                      style={{ borderColor: "#c9a84c60", color: "#c9a84c", fontFamily: "JetBrains Mono, monospace" }}>
+                      <RotateCcw className="w-4 h-4" /> Regenerar recursos con estos datos
+                    </button>
                   </div>
                 )}
               </div>
             )}
 
+            {/* Pruebas aportadas */}
+            {supportDocuments.length > 0 && (
+              <div className="mb-6">
+                <p className="text-xs uppercase tracking-widest mb-4 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                  Documentación aportada
+                </p>
+                <div className="space-y-2">
+                  {supportDocuments.map(doc => (
+                    <div key={doc.index} className="flex items-center justify-between gap-3 px-5 py-3 rounded-sm"
+                      style={{ border: "1px solid #2a2a38", background: "#111118" }}>
+                      <span className="text-sm truncate flex items-center gap-2">
+                        <span className="text-xs opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>Doc. nº {doc.index}</span>
+                        {doc.name}
+                        {masterRecurso && !citados.includes(doc.index) && (
+                          <span className="text-xs" style={{ color: "#fbbf24", fontFamily: "JetBrains Mono, monospace" }}>· no se cita en el escrito</span>
+                        )}
+                      </span>
+                      <span className="text-xs flex-shrink-0" style={{
+                        color: doc.error ? "#f87171" : doc.truncated ? "#fbbf24" : "#4ade80",
+                        fontFamily: "JetBrains Mono, monospace",
+                      }}>
+                        {doc.error ? "⚠ " + doc.error : doc.truncated ? "✓ Leído (recortado)" : "✓ Leído"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                {inexistentes.length > 0 && (
+                  <p className="text-xs mt-3 flex items-center gap-2" style={{ color: "#f87171", fontFamily: "JetBrains Mono, monospace" }}>
+                    <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                    El escrito cita {inexistentes.map(n => `el Documento nº ${n}`).join(", ")}, que no se ha aportado: revisa la numeración antes de presentarlo
+                  </p>
+                )}
+                <p className="text-xs mt-2 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                  El .docx y el PDF llevan el índice de documentos y las fotografías (JPEG o PNG) en un anexo con esta numeración
+                </p>
+              </div>
+            )}
+
             {/* Borradores individuales */}
             <div className="mb-6">
               <p className="text-xs uppercase tracking-widest mb-4 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
@@ -405,7 +971,10 @@ export default function RecursosPage() {
                         <div>
                           <div className="text-sm font-semibold" style={{ fontFamily: "Crimson Text, serif", fontSize: "16px" }}>{agent.label}</div>
                           {agent.status === "done" && (
-                            <div className="text-xs" style={{ color: "#4ade80", fontFamily: "JetBrains Mono, monospace" }}>✓ {agent.content.length} chars</div>
+                            <div className="flex items-center gap-2">
+                              <span className="text-xs" style={{ color: "#4ade80", fontFamily: "JetBrains Mono, monospace" }}>✓ {agent.content.length} chars</span>
+                              <CitasBadge revision={agent.citas} />
+                            </div>
                           )}
                           {agent.status === "error" && (
                             <div className="text-xs max-w-sm" style={{ color: "#f87171", fontFamily: "JetBrains Mono, monospace", wordBreak: "break-word" }}>
@@ -418,13 +987,22 @@ export default function RecursosPage() {
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
+                        {(agent.status === "error" || agent.status === "skipped") && (
+                          <button onClick={() => handleRetryAgent(agent.agentId)} disabled={retryingAgent !== null}
+                            className="flex items-center gap-1 px-3 py-1.5 rounded text-xs border transition-all hover:opacity-100 opacity-60 disabled:opacity-30"
+                            style={{ borderColor: `${agent.color}40`, color: agent.color, fontFamily: "JetBrains Mono, monospace" }}>
+                            <RotateCcw className={`w-3 h-3 ${retryingAgent === agent.agentId ? "animate-spin" : ""}`} /> Reintentar
+                          </button>
+                        )}
                         {agent.status === "done" && (
                           <>
-                            <button onClick={() => handleDownload(agent.content, `recurso-${agent.agentId}-${Date.now()}.docx`)}
-                              className="flex items-center gap-1 px-3 py-1.5 rounded text-xs border transition-all hover:opacity-100 opacity-60"
-                              style={{ borderColor: `${agent.color}40`, color: agent.color, fontFamily: "JetBrains Mono, monospace" }}>
-                              <Download className="w-3 h-3" /> .docx
-                            </button>
+                            {(["docx", "pdf"] as const).map(f => (
+                              <button key={f} onClick={() => handleDownload(agent.content, `recurso-${agent.agentId}`, f)}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded text-xs border transition-all hover:opacity-100 opacity-60"
+                                style={{ borderColor: `${agent.color}40`, color: agent.color, fontFamily: "JetBrains Mono, monospace" }}>
+                                <Download className="w-3 h-3" /> .{f}
+                              </button>
+                            ))}
                             <button onClick={() => setExpandedAgent(expandedAgent === agent.agentId ? null : agent.agentId)}
                               className="p-1.5 opacity-40 hover:opacity-100 transition-opacity">
                               {expandedAgent === agent.agentId ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
@@ -435,6 +1013,11 @@ export default function RecursosPage() {
                     </div>
                     {expandedAgent === agent.agentId && agent.status === "done" && (
                       <div className="px-5 pb-5 border-t" style={{ borderColor: "#1e1e2a" }}>
+                        {agent.citas && agent.citas.pendientes > 0 && (
+                          <div className="mt-4">
+                            <CitasPanel revision={{ ...agent.citas, citas: agent.citas.citas.filter(c => c.estado !== "verificada") }} />
+                          </div>
+                        )}
                         <div className="mt-4 whitespace-pre-wrap max-h-96 overflow-y-auto text-sm leading-relaxed"
                           style={{ fontFamily: "Crimson Text, serif", fontSize: "15px", color: "#b8b8c8" }}>
                           {agent.content}
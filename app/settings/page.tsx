@@ -2,12 +2,9 @@
 
 import Link from "next/link";
 import { Scale, ArrowLeft, ExternalLink, Terminal, CheckCircle } from "lucide-react";
-import { FIXED_AGENTS } from "@/lib/llm";
+import { FIXED_AGENTS, PROVIDERS, ProviderId } from "@/lib/agents";
 
-const ENV_VARS: Record<string, string> = {
-  mistral: "MISTRAL_API_KEY",
-  openrouter: "OPENROUTER_API_KEY",
-};
+const envVar = (provider: string) => PROVIDERS[provider as ProviderId]?.envKey || "OPENAI_API_KEY";
 
 export default function SettingsPage() {
   return (
@@ -59,7 +56,7 @@ export default function SettingsPage() {
                 <div className="flex items-center gap-3">
                   <span className="px-3 py-1.5 rounded text-xs"
                     style={{ background: "#0a0a0f", border: "1px solid #2a2a38", color: "#9898b0", fontFamily: "JetBrains Mono, monospace" }}>
-                    {ENV_VARS[agent.provider]}
+                    {envVar(agent.provider)}
                   </span>
                   <a href={agent.signupUrl} target="_blank" rel="noopener noreferrer"
                     className="flex items-center gap-1 opacity-40 hover:opacity-100 transition-opacity text-xs"
@@ -110,7 +107,7 @@ export default function SettingsPage() {
                       style={{ background: "#0a0a0f", border: "1px solid #1e1e2a" }}>
                       <div className="w-2 h-2 rounded-full" style={{ background: agent.color }} />
                       <code className="text-sm flex-1" style={{ color: "#e8cc7a", fontFamily: "JetBrains Mono, monospace" }}>
-                        {ENV_VARS[agent.provider]}
+                        {envVar(agent.provider)}
                       </code>
                       <span className="text-xs opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>= sk-…</span>
                     </div>
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { ARGUMENTOS, Argumento, Sugerencia, VERSION_ARGUMENTOS } from "@/lib/argumentos";
+
+function ArgumentoRow({ argumento, motivos, checked, onToggle }: {
+  argumento: Argumento;
+  motivos?: string[];
+  checked: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <label className="rounded-sm p-4 flex gap-3 cursor-pointer transition-all"
+      style={{ background: checked ? "#c9a84c10" : "#111118", border: `1px solid ${checked ? "#c9a84c60" : "#2a2a38"}` }}>
+      <input type="checkbox" checked={checked} onChange={onToggle} className="mt-1 flex-shrink-0" style={{ accentColor: "#c9a84c" }} />
+      <div className="min-w-0">
+        <p className="text-sm" style={{ color: checked ? "#c9a84c" : "#e8e8ef" }}>{argumento.titulo}</p>
+        <p className="text-sm opacity-60 mt-1">{argumento.resumen}</p>
+        {motivos && motivos.length > 0 && (
+          <p className="text-xs opacity-40 mt-1" style={{ fontFamily: "JetBrains Mono, monospace" }}>{motivos.join(" · ")}</p>
+        )}
+      </div>
+    </label>
+  );
+}
+
+/** Argumentos de la biblioteca que encajan con la multa; los marcados se alegan sí o sí */
+export default function ArgumentosPanel({ sugerencias, value, onChange }: {
+  sugerencias: Sugerencia[];
+  value: string[];
+  onChange: (ids: string[]) => void;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const toggle = (id: string) => onChange(value.includes(id) ? value.filter(v => v !== id) : [...value, id]);
+  const sugeridos = new Set(sugerencias.map(s => s.argumento.id));
+  // Los elegidos a mano siguen visibles aunque se pliegue la biblioteca
+  const resto = ARGUMENTOS.filter(a => !sugeridos.has(a.id) && (showAll || value.includes(a.id)));
+
+  return (
+    <div className="space-y-2">
+      {sugerencias.length === 0 && (
+        <p className="text-sm opacity-50">Ningún argumento de la biblioteca encaja con esta multa.</p>
+      )}
+      {sugerencias.map(s => (
+        <ArgumentoRow key={s.argumento.id} argumento={s.argumento} motivos={s.motivos}
+          checked={value.includes(s.argumento.id)} onToggle={() => toggle(s.argumento.id)} />
+      ))}
+      {resto.map(a => (
+        <ArgumentoRow key={a.id} argumento={a} checked={value.includes(a.id)} onToggle={() => toggle(a.id)} />
+      ))}
+      <button onClick={() => setShowAll(s => !s)}
+        className="flex items-center gap-1 text-xs opacity-50 hover:opacity-100 transition-opacity"
+        style={{ fontFamily: "JetBrains Mono, monospace" }}>
+        {showAll ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        {showAll ? "Solo los sugeridos" : `Toda la biblioteca (${ARGUMENTOS.length})`} · {VERSION_ARGUMENTOS}
+      </button>
+    </div>
+  );
+}
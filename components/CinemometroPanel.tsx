@@ -0,0 +1,62 @@
+"use client";
+
+import { Gauge } from "lucide-react";
+import { AnalisisVelocidad, MARGENES } from "@/lib/cinemometro";
+
+/** Velocidad corregida y tramo que corresponde, frente a lo que dice el boletín */
+export default function CinemometroPanel({ analisis, importe, puntos }: {
+  analisis: AnalisisVelocidad;
+  importe: number | null;
+  puntos: number | null;
+}) {
+  const { tramo } = analisis;
+  const sinExceso = analisis.corregida <= analisis.limite;
+  const aFavor = sinExceso || analisis.margenInsuficiente || analisis.tramoIncorrecto;
+  const color = aFavor ? "#4ade80" : "#9898b0";
+
+  const cifras = [
+    { label: "Medida", value: `${analisis.medida} km/h` },
+    { label: `Margen (${MARGENES[analisis.tipo].label.toLowerCase()})`, value: `−${analisis.margen} km/h` },
+    { label: "Corregida", value: `${analisis.corregida} km/h` },
+    { label: "Límite", value: `${analisis.limite} km/h` },
+  ];
+
+  return (
+    <div className="rounded-sm p-4" style={{ background: `${color}10`, border: `1px solid ${color}30` }}>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
+        {cifras.map(c => (
+          <div key={c.label}>
+            <p className="text-xs opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>{c.label}</p>
+            <p className="font-display text-xl">{c.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-3">
+        <Gauge className="w-4 h-4 flex-shrink-0 mt-0.5" style={{ color }} />
+        <div className="text-sm opacity-70 space-y-1">
+          {analisis.margenInsuficiente && (
+            <p>El boletín da {analisis.corregidaBoletin} km/h como velocidad corregida: el margen está mal aplicado.</p>
+          )}
+          {sinExceso ? (
+            <p>Tras aplicar el margen de error no hay exceso de velocidad.</p>
+          ) : tramo ? (
+            <p>
+              Corresponden <strong style={{ color: "#c9a84c" }}>{tramo.importe} € y {tramo.puntos} puntos</strong> (Anexo IV LSV)
+              {analisis.tramoIncorrecto
+                ? `; el boletín impone ${importe ?? "?"} € y ${puntos ?? "?"} puntos.`
+                : ", lo mismo que impone el boletín."}
+            </p>
+          ) : (
+            <p>El límite de {analisis.limite} km/h no figura en el Anexo IV: no se puede comprobar el tramo.</p>
+          )}
+          {analisis.delito && (
+            <p style={{ color: "#f87171" }}>La velocidad corregida supera el umbral del delito del art. 379.1 CP.</p>
+          )}
+          <p className="text-xs opacity-60" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+            El escrito pedirá el certificado de verificación del cinemómetro (Orden ITC/3123/2010).
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { AlertCircle, BookOpen, CheckCircle } from "lucide-react";
+import { Cita, EstadoCita, ESTADOS_CITA, RevisionCitas, VERSION_CORPUS, formatCita } from "@/lib/citas";
+
+const COLORES: Record<EstadoCita, string> = {
+  verificada: "#4ade80",
+  sin_texto: "#fbbf24",
+  no_verificable: "#fbbf24",
+  inexistente: "#f87171",
+  derogada: "#f87171",
+};
+
+/** Aviso compacto para la cabecera de un borrador */
+export function CitasBadge({ revision }: { revision?: RevisionCitas }) {
+  if (!revision || revision.citas.length === 0) return null;
+  const color = revision.citas.some(c => COLORES[c.estado] === "#f87171") ? "#f87171" : revision.pendientes ? "#fbbf24" : "#4ade80";
+  return (
+    <span className="text-xs px-2 py-0.5 rounded"
+      style={{ background: `${color}15`, color, border: `1px solid ${color}30`, fontFamily: "JetBrains Mono, monospace" }}>
+      {revision.pendientes ? `⚠ ${revision.pendientes} cita${revision.pendientes !== 1 ? "s" : ""} por revisar` : "✓ Citas verificadas"}
+    </span>
+  );
+}
+
+function CitaRow({ cita }: { cita: Cita }) {
+  const color = COLORES[cita.estado];
+  const Icon = cita.estado === "verificada" ? CheckCircle : AlertCircle;
+  return (
+    <div className="rounded-sm p-3 flex gap-3" style={{ background: `${color}08`, border: `1px solid ${color}25` }}>
+      <Icon className="w-4 h-4 flex-shrink-0 mt-0.5" style={{ color }} />
+      <div className="min-w-0 flex-1">
+        <p className="text-xs uppercase tracking-widest opacity-60" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+          {formatCita(cita)} · <span style={{ color }}>{ESTADOS_CITA[cita.estado].label}</span>
+        </p>
+        {cita.corpus ? (
+          <details className="mt-1">
+            <summary className="text-sm cursor-pointer" style={{ color: "#c9a84c" }}>{cita.corpus.titulo}</summary>
+            <p className="text-sm opacity-70 mt-2 whitespace-pre-wrap" style={{ fontFamily: "Crimson Text, serif", fontSize: "15px" }}>
+              {cita.corpus.texto}
+            </p>
+            {cita.norma?.fuente && (
+              <a href={cita.norma.fuente} target="_blank" rel="noopener noreferrer"
+                className="text-xs opacity-50 hover:opacity-100 underline" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                Texto consolidado en el BOE
+              </a>
+            )}
+          </details>
+        ) : (
+          <>
+            <p className="text-sm opacity-70 mt-1">{ESTADOS_CITA[cita.estado].detalle(cita)}</p>
+            {cita.estado === "no_verificable" && <p className="text-xs opacity-40 mt-1 italic">«{cita.texto}»</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Citas del escrito: primero las que hay que revisar antes de descargar */
+export default function CitasPanel({ revision }: { revision: RevisionCitas }) {
+  if (revision.citas.length === 0) {
+    return <p className="text-sm opacity-50">El escrito no cita artículos de normas del corpus ni jurisprudencia.</p>;
+  }
+  const ordenadas = [...revision.citas].sort((a, b) => Number(a.estado === "verificada") - Number(b.estado === "verificada"));
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+        <BookOpen className="w-3 h-3" />
+        {revision.citas.length - revision.pendientes} de {revision.citas.length} citas verificadas · corpus {VERSION_CORPUS}
+      </div>
+      {ordenadas.map(c => <CitaRow key={`${c.estado}:${c.texto}:${formatCita(c)}`} cita={c} />)}
+    </div>
+  );
+}
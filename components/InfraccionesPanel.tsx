@@ -0,0 +1,49 @@
+"use client";
+
+import { AlertCircle, BookOpen } from "lucide-react";
+import { RevisionSancion, formatRef } from "@/lib/infracciones";
+
+/** Qué significa cada artículo citado y si la sanción casa con él */
+export default function InfraccionesPanel({ revision }: { revision: RevisionSancion }) {
+  return (
+    <div className="space-y-3">
+      {revision.articulos.map(a => (
+        <div key={a.citado} className="rounded-sm p-4 flex gap-3" style={{ background: "#111118", border: "1px solid #2a2a38" }}>
+          <BookOpen className="w-4 h-4 flex-shrink-0 mt-0.5" style={{ color: a.infraccion ? "#c9a84c" : "#5a5a70" }} />
+          <div className="min-w-0">
+            <p className="text-xs uppercase tracking-widest mb-1 opacity-60" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+              {a.ref ? formatRef(a.ref) : a.citado}
+            </p>
+            {a.infraccion ? (
+              <>
+                <p className="text-sm" style={{ color: "#c9a84c" }}>{a.infraccion.descripcion}</p>
+                <p className="text-sm opacity-60 mt-1">{a.infraccion.explicacion}</p>
+                <p className="text-xs opacity-40 mt-1" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                  {a.infraccion.gravedades.join(" o ")} ·{" "}
+                  {a.infraccion.velocidad
+                    ? "importe según el exceso (Anexo IV)"
+                    : [a.infraccion.importeMaximo !== undefined ? `hasta ${a.infraccion.importeMaximo} €` : "", ...a.infraccion.importes.map(n => `${n} €`)]
+                        .filter(Boolean).join(" o ")}{" "}
+                  · {a.infraccion.puntos.join(" o ")} puntos
+                </p>
+              </>
+            ) : (
+              <p className="text-sm opacity-50">No está en el catálogo: no se puede contrastar la sanción.</p>
+            )}
+          </div>
+        </div>
+      ))}
+      {revision.discrepancias.map((d, i) => {
+        const color = d.favorable ? "#4ade80" : "#9898b0";
+        return (
+          <div key={i} className="rounded-sm p-4 flex gap-3" style={{ background: `${color}10`, border: `1px solid ${color}30` }}>
+            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" style={{ color }} />
+            <p className="text-sm opacity-80">
+              {d.texto} {d.favorable ? "Se alegará en el escrito." : "Es más leve de lo previsto: no conviene alegarlo."}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { AlertCircle } from "lucide-react";
+import { MULTA_FIELDS, MultaData, getMultaField, setMultaField } from "@/lib/multa";
+
+const inputStyle = {
+  background: "#0a0a0f",
+  border: "1px solid #2a2a38",
+  color: "#f9f6ef",
+  fontFamily: "Crimson Text, serif",
+  fontSize: "15px",
+};
+
+const GROUPS = Array.from(new Set(MULTA_FIELDS.map(f => f.group)));
+
+export default function MultaDataForm({ value, onChange, warnings = [] }: {
+  value: MultaData;
+  onChange: (next: MultaData) => void;
+  warnings?: string[];
+}) {
+  const update = (key: string, v: unknown) => onChange(setMultaField(value, key, v));
+
+  return (
+    <div className="space-y-6">
+      {warnings.length > 0 && (
+        <div className="rounded-sm p-4 flex gap-3" style={{ background: "#f8717110", border: "1px solid #f8717130" }}>
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" style={{ color: "#f87171" }} />
+          <div className="text-xs space-y-1" style={{ color: "#f87171", fontFamily: "JetBrains Mono, monospace" }}>
+            <p>Revisa estos campos, la extracción automática no fue fiable:</p>
+            {warnings.map((w, i) => <p key={i}>· {w}</p>)}
+          </div>
+        </div>
+      )}
+
+      {GROUPS.map(group => (
+        <div key={group}>
+          <p className="text-xs uppercase tracking-widest mb-3 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+            {group}
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {MULTA_FIELDS.filter(f => f.group === group).map(field => {
+              const current = getMultaField(value, field.key);
+              const wide = field.kind === "textarea" || field.kind === "list";
+              return (
+                <label key={field.key} className={wide ? "sm:col-span-2 block" : "block"}>
+                  <span className="block text-xs mb-1 opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+                    {field.label}
+                  </span>
+                  {field.kind === "textarea" ? (
+                    <textarea value={(current as string) || ""} rows={3}
+                      onChange={e => update(field.key, e.target.value)}
+                      className="w-full px-3 py-2 rounded text-sm focus:outline-none resize-y" style={inputStyle} />
+                  ) : field.kind === "list" ? (
+                    <input type="text" value={((current as string[]) || []).join("; ")}
+                      onChange={e => update(field.key, e.target.value.split(/\s*;\s*/).filter((s, i, arr) => s || i === arr.length - 1))}
+                      placeholder="Separados por punto y coma"
+                      className="w-full px-3 py-2 rounded text-sm focus:outline-none" style={inputStyle} />
+                  ) : field.kind === "select" ? (
+                    <select value={(current as string) || ""}
+                      onChange={e => update(field.key, e.target.value)}
+                      className="w-full px-3 py-2 rounded text-sm focus:outline-none" style={inputStyle}>
+                      <option value="">No consta</option>
+                      {field.options?.map(o => <option key={o} value={o}>{o}</option>)}
+                    </select>
+                  ) : field.kind === "number" ? (
+                    <input type="number" value={current === null || current === undefined ? "" : String(current)}
+                      onChange={e => update(field.key, e.target.value === "" ? null : Number(e.target.value))}
+                      className="w-full px-3 py-2 rounded text-sm focus:outline-none" style={inputStyle} />
+                  ) : (
+                    <input type={field.kind === "date" ? "date" : "text"} value={(current as string) || ""}
+                      onChange={e => update(field.key, e.target.value)}
+                      className="w-full px-3 py-2 rounded text-sm focus:outline-none" style={{ ...inputStyle, colorScheme: "dark" }} />
+                  )}
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { Pencil, Plus, Trash2, UserRound } from "lucide-react";
+import { Perfil, emptyPerfil, validarDocumento, validarPerfil } from "@/lib/perfiles";
+
+const CAMPOS: { key: keyof Omit<Perfil, "id">; label: string; placeholder: string }[] = [
+  { key: "etiqueta", label: "Perfil", placeholder: "Yo, Mamá, Furgoneta empresa…" },
+  { key: "nombre", label: "Nombre completo", placeholder: "Nombre y apellidos" },
+  { key: "dni", label: "DNI/NIE", placeholder: "12345678Z" },
+  { key: "domicilio", label: "Domicilio", placeholder: "Calle, número, CP y municipio" },
+  { key: "telefono", label: "Teléfono", placeholder: "" },
+  { key: "email", label: "Email", placeholder: "" },
+];
+
+const inputStyle = { background: "#0a0a0f", border: "1px solid #2a2a38", color: "#e8e8ef", fontFamily: "JetBrains Mono, monospace" };
+
+function PerfilForm({ initial, onSave, onCancel }: { initial: Perfil; onSave: (p: Perfil) => void; onCancel: () => void }) {
+  const [perfil, setPerfil] = useState(initial);
+  const errores = validarPerfil(perfil);
+  const doc = perfil.dni.trim() ? validarDocumento(perfil.dni) : null;
+
+  return (
+    <div className="rounded-sm p-4 mt-3 space-y-3" style={{ background: "#111118", border: "1px solid #2a2a38" }}>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {CAMPOS.map(c => (
+          <label key={c.key} className={c.key === "domicilio" ? "sm:col-span-2" : ""}>
+            <span className="text-xs opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>{c.label}</span>
+            <input value={perfil[c.key]} placeholder={c.placeholder}
+              onChange={e => setPerfil(p => ({ ...p, [c.key]: e.target.value }))}
+              className="w-full mt-1 px-3 py-2 rounded-sm text-sm focus:outline-none"
+              style={{ ...inputStyle, borderColor: c.key === "dni" && doc ? (doc.valido ? "#4ade8060" : "#f8717160") : "#2a2a38" }} />
+            {c.key === "dni" && doc && (
+              <span className="text-xs" style={{ color: doc.valido ? "#4ade80" : "#f87171", fontFamily: "JetBrains Mono, monospace" }}>
+                {doc.valido ? `✓ ${doc.tipo} válido` : doc.error}
+              </span>
+            )}
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={() => onSave(perfil)} disabled={errores.length > 0}
+          className="px-4 py-2 rounded-sm text-xs font-semibold disabled:opacity-30"
+          style={{ background: "linear-gradient(135deg, #c9a84c, #9a7530)", color: "#0a0a0f", fontFamily: "JetBrains Mono, monospace" }}>
+          Guardar perfil
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 rounded-sm text-xs opacity-60 hover:opacity-100"
+          style={{ fontFamily: "JetBrains Mono, monospace" }}>
+          Cancelar
+        </button>
+        {errores.length > 0 && (
+          <span className="text-xs opacity-60" style={{ color: "#fbbf24", fontFamily: "JetBrains Mono, monospace" }}>{errores[0]}</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Quién firma el escrito: un perfil guardado en este navegador o los datos del denunciado */
+export default function PerfilesPanel({ perfiles, value, onSelect, onChange }: {
+  perfiles: Perfil[];
+  value: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (perfiles: Perfil[]) => void;
+}) {
+  const [editing, setEditing] = useState<Perfil | null>(null);
+  const activo = perfiles.find(p => p.id === value) || null;
+
+  const save = (perfil: Perfil) => {
+    const existe = perfiles.some(p => p.id === perfil.id);
+    onChange(existe ? perfiles.map(p => p.id === perfil.id ? perfil : p) : [...perfiles, perfil]);
+    onSelect(perfil.id);
+    setEditing(null);
+  };
+
+  const remove = () => {
+    if (!activo || !confirm(`¿Borrar el perfil «${activo.etiqueta}» de este navegador?`)) return;
+    onChange(perfiles.filter(p => p.id !== activo.id));
+    onSelect(null);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2">
+        <UserRound className="w-4 h-4" style={{ color: "#c9a84c" }} />
+        <select value={value || ""} onChange={e => onSelect(e.target.value || null)}
+          className="px-3 py-2 rounded-sm text-xs focus:outline-none" style={{ ...inputStyle, color: "#9898b0" }}>
+          <option value="">Datos del denunciado (de la multa)</option>
+          {perfiles.map(p => <option key={p.id} value={p.id}>{p.etiqueta} · {p.nombre}</option>)}
+        </select>
+        {activo && (
+          <>
+            <button onClick={() => setEditing(activo)} className="p-2 opacity-50 hover:opacity-100" title="Editar perfil">
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button onClick={remove} className="p-2 opacity-50 hover:opacity-100" title="Borrar perfil">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </>
+        )}
+        <button onClick={() => setEditing(emptyPerfil())}
+          className="flex items-center gap-1 px-3 py-2 rounded-sm text-xs border opacity-60 hover:opacity-100"
+          style={{ borderColor: "#c9a84c40", color: "#c9a84c", fontFamily: "JetBrains Mono, monospace" }}>
+          <Plus className="w-3 h-3" /> Nuevo perfil
+        </button>
+      </div>
+      <p className="text-xs opacity-40 mt-2" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+        Rellena el bloque DATOS DEL RECURRENTE del .docx. Los perfiles solo se guardan en este navegador.
+      </p>
+      {editing && <PerfilForm key={editing.id} initial={editing} onSave={save} onCancel={() => setEditing(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { LayoutTemplate } from "lucide-react";
+import type { MultaData } from "@/lib/multa";
+import { PLANTILLAS, VERSION_PLANTILLAS, elegirPlantilla, plantillaPorId } from "@/lib/plantillas";
+import type { TipoEscrito } from "@/lib/tramite";
+
+const selectStyle = { background: "#0a0a0f", border: "1px solid #2a2a38", color: "#9898b0", fontFamily: "JetBrains Mono, monospace" };
+
+/** Plantilla del .docx/PDF: la automática (según organismo y escrito) o una elegida a mano */
+export default function PlantillaPanel({ multaData, escrito, value, onChange }: {
+  multaData: MultaData;
+  escrito: TipoEscrito;
+  value: string | null;
+  onChange: (id: string | null) => void;
+}) {
+  const automatica = elegirPlantilla(multaData, escrito);
+  const activa = (value && plantillaPorId(value)) || automatica;
+  const rasgos = [
+    activa.destinatario.length > 0 && "destinatario",
+    activa.encabezado && "cabecera",
+    activa.recuadroPlazo && "recuadro del plazo",
+    activa.guia && "guía de presentación",
+  ].filter(Boolean);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 flex-wrap">
+        <LayoutTemplate className="w-4 h-4 opacity-50" />
+        <select value={value || ""} onChange={e => onChange(e.target.value || null)}
+          className="px-3 py-2 rounded-sm text-xs focus:outline-none" style={selectStyle}>
+          <option value="">Automática · {automatica.nombre}</option>
+          {PLANTILLAS.map(p => <option key={p.id} value={p.id}>{p.nombre}</option>)}
+        </select>
+      </div>
+      <p className="text-xs mt-2 opacity-60" style={{ fontFamily: "Crimson Text, serif", fontSize: "0.95rem" }}>
+        {activa.descripcion}
+      </p>
+      <p className="text-xs mt-1 opacity-40" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+        {rasgos.length ? `Incluye ${rasgos.join(", ")}` : "Solo el escrito"} · plantillas {VERSION_PLANTILLAS}
+      </p>
+    </div>
+  );
+}
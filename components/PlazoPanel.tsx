@@ -0,0 +1,93 @@
+"use client";
+
+import { CalendarClock } from "lucide-react";
+import {
+  COMUNIDADES, ConfigPlazo, PROCEDIMIENTOS, Procedimiento, ResultadoPlazo, describirRegla, formatFechaLarga,
+} from "@/lib/plazos";
+import { formatDateEs, normalizeDate } from "@/lib/multa";
+
+const selectStyle = {
+  background: "#0a0a0f",
+  border: "1px solid #2a2a38",
+  color: "#f9f6ef",
+  fontFamily: "JetBrains Mono, monospace",
+  fontSize: "12px",
+};
+
+function urgencyColor(plazo: ResultadoPlazo): string {
+  if (plazo.vencido) return "#f87171";
+  if (plazo.diasRestantes <= 5) return "#fbbf24";
+  return "#4ade80";
+}
+
+/** Último día para presentar, en grande. Solo lectura (paso de resultados) */
+export function PlazoBanner({ plazo }: { plazo: ResultadoPlazo | null }) {
+  if (!plazo) return null;
+  const color = urgencyColor(plazo);
+  return (
+    <div className="rounded-sm p-5 mb-6 flex items-center gap-4" style={{ background: `${color}10`, border: `1px solid ${color}40` }}>
+      <CalendarClock className="w-8 h-8 flex-shrink-0" style={{ color }} />
+      <div className="min-w-0">
+        <p className="text-xs uppercase tracking-widest opacity-60" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+          Último día para presentar · {plazo.label}
+        </p>
+        <p className="font-display text-2xl first-letter:uppercase" style={{ color }}>{formatFechaLarga(plazo.ultimoDia)}</p>
+        <p className="text-xs opacity-50 mt-1" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+          {plazo.vencido
+            ? "El plazo ya ha vencido"
+            : `Quedan ${plazo.diasRestantes} ${plazo.diasRestantes === 1 ? "día" : "días"}`} · {plazo.descripcion} · {plazo.norma}
+          {plazo.prorrogado && " · prorrogado por vencer en inhábil"}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/** Procedimiento y calendario de festivos que determinan el plazo (paso de revisión) */
+export default function PlazoPanel({ plazo, config, onChange }: {
+  plazo: ResultadoPlazo | null;
+  config: ConfigPlazo;
+  onChange: (next: ConfigPlazo) => void;
+}) {
+  const locales = (config.festivosLocales || []).map(formatDateEs).join(", ");
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        <label className="block">
+          <span className="block text-xs mb-1 opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>Plazo aplicable</span>
+          <select value={config.procedimiento} onChange={e => onChange({ ...config, procedimiento: e.target.value as Procedimiento })}
+            className="w-full px-3 py-2 rounded focus:outline-none" style={selectStyle}>
+            {(Object.keys(PROCEDIMIENTOS) as Procedimiento[]).map(p => (
+              <option key={p} value={p}>{PROCEDIMIENTOS[p].label} · {describirRegla(PROCEDIMIENTOS[p])}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs mb-1 opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>Festivos autonómicos</span>
+          <select value={config.comunidad || ""} onChange={e => onChange({ ...config, comunidad: e.target.value || undefined })}
+            className="w-full px-3 py-2 rounded focus:outline-none" style={selectStyle}>
+            <option value="">Solo nacionales</option>
+            {Object.entries(COMUNIDADES).map(([code, ca]) => <option key={code} value={code}>{ca.nombre}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs mb-1 opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>Festivos locales</span>
+          <input type="text" defaultValue={locales} placeholder="DD/MM/AAAA, …"
+            onBlur={e => onChange({
+              ...config,
+              festivosLocales: e.target.value.split(/\s*,\s*/).map(normalizeDate).filter((d): d is string => !!d),
+            })}
+            className="w-full px-3 py-2 rounded focus:outline-none" style={selectStyle} />
+        </label>
+      </div>
+      {plazo ? (
+        <PlazoBanner plazo={plazo} />
+      ) : (
+        <p className="text-xs opacity-50 mb-6" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+          Indica la fecha de notificación para calcular el último día exacto.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { CheckCircle, CircleHelp, ShieldCheck, XCircle } from "lucide-react";
+import type { ComprobacionPrescripcion, EstadoHallazgo } from "@/lib/prescripcion";
+
+const ESTADOS: Record<EstadoHallazgo, { label: string; color: string; Icon: typeof CheckCircle }> = {
+  favorable: { label: "A tu favor", color: "#4ade80", Icon: ShieldCheck },
+  indeterminado: { label: "A comprobar", color: "#fbbf24", Icon: CircleHelp },
+  desfavorable: { label: "No aplica", color: "#9898b0", Icon: XCircle },
+  sin_datos: { label: "Sin datos", color: "#5a5a70", Icon: CircleHelp },
+};
+
+/** Prescripción y caducidad calculadas con las fechas de la multa */
+export default function PrescripcionPanel({ comprobacion }: { comprobacion: ComprobacionPrescripcion }) {
+  return (
+    <div className="space-y-3">
+      {comprobacion.hallazgos.map(h => {
+        const { label, color, Icon } = ESTADOS[h.estado];
+        return (
+          <div key={h.tipo} className="rounded-sm p-4 flex gap-3" style={{ background: `${color}10`, border: `1px solid ${color}30` }}>
+            <Icon className="w-4 h-4 flex-shrink-0 mt-0.5" style={{ color }} />
+            <div className="min-w-0">
+              <p className="text-xs uppercase tracking-widest mb-1" style={{ color, fontFamily: "JetBrains Mono, monospace" }}>
+                {h.titulo} · {label}
+              </p>
+              <p className="text-sm opacity-70">{h.detalle}</p>
+              <p className="text-xs opacity-40 mt-1" style={{ fontFamily: "JetBrains Mono, monospace" }}>{h.norma}</p>
+            </div>
+          </div>
+        );
+      })}
+      {comprobacion.gravedadDeducida && (
+        <p className="text-xs opacity-50" style={{ fontFamily: "JetBrains Mono, monospace" }}>
+          Gravedad deducida del importe y los puntos: {comprobacion.gravedad}. Corrígela en los datos si no es así.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * lib/agents.ts
+ *
+ * Definición de los agentes y de los proveedores que usan. Sin dependencias
+ * de servidor: la importan también las páginas cliente (settings).
+ */
+
+import type { MergeModel } from "./contracts";
+
+/** Lo que se sabe de un proveedor sin cargar su cliente (lib/providers.ts, solo servidor) */
+export interface ProviderInfo {
+  id: string;
+  label: string;
+  /** Variable de entorno donde vive la API key en el servidor */
+  envKey: string;
+}
+
+export type ProviderId = "mistral" | "openrouter" | "groq" | "gemini" | "openai";
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+  mistral: { id: "mistral", label: "Mistral", envKey: "MISTRAL_API_KEY" },
+  openrouter: { id: "openrouter", label: "OpenRouter", envKey: "OPENROUTER_API_KEY" },
+  groq: { id: "groq", label: "Groq", envKey: "GROQ_API_KEY" },
+  gemini: { id: "gemini", label: "Gemini", envKey: "GEMINI_API_KEY" },
+  openai: { id: "openai", label: "OpenAI-compatible", envKey: "OPENAI_API_KEY" },
+};
+
+export interface AgentDefinition {
+  id: string;
+  name: string;
+  provider: string;
+  model: string;
+  label: string;
+  freeInfo: string;
+  signupUrl: string;
+  color: string;
+}
+
+export const FIXED_AGENTS: AgentDefinition[] = [
+  {
+    id: "agent-mistral",
+    name: "Agente Mistral",
+    provider: "mistral",
+    model: "mistral-small-latest",
+    label: "Mistral · Mistral Small",
+    freeInfo: "Gratis · tier gratuito · Sin tarjeta",
+    signupUrl: "https://console.mistral.ai/api-keys",
+    color: "#f97316",
+  },
+  {
+    id: "agent-openrouter-1",
+    //name: "Agente Llama",
+    provider: "openrouter",
+    model: "google/gemma-3-27b-it:free",
+    label: "OpenRouter · Gemma 3 27B :free",
+    name: "Agente Gemma",
+    //model: "meta-llama/llama-3.3-70b-instruct:free",
+    //label: "OpenRouter · Llama 3.3 70B :free",
+    freeInfo: "Gratis · sin coste · Sin tarjeta",
+    signupUrl: "https://openrouter.ai/keys",
+    color: "#8b5cf6",
+  },
+  {
+    id: "agent-openrouter-2",
+    name: "Agente Auto",
+    provider: "openrouter",
+    model: "openrouter/auto",          // ← usa el mejor modelo free disponible
+    label: "OpenRouter · Auto :free",
+    freeInfo: "Gratis · selección automática",
+    signupUrl: "https://openrouter.ai/keys",
+    color: "#06b6d4",
+  },
+];
+
+// Orden de preferencia para la fusión: se usa el primero con API key disponible
+export const MASTER_MODELS: MergeModel[] = [
+  { provider: "mistral", model: "mistral-large-latest" },
+  { provider: "openrouter", model: "deepseek/deepseek-chat-v3-0324:free" },
+];
@@ -0,0 +1,59 @@
+/**
+ * lib/anexo.ts
+ *
+ * Imágenes de la documentación de apoyo para el anexo del .docx y el PDF
+ * (solo servidor). Solo se incrustan JPEG y PNG, que son los formatos que
+ * admiten docx y pdfkit; el resto de pruebas se listan en el índice y se
+ * aportan por separado. Las dimensiones se leen de la cabecera del fichero
+ * para escalar la imagen sin deformarla.
+ */
+
+import type { AnnexDocument } from "./contracts";
+
+export interface ImagenAnexo {
+  formato: "jpg" | "png";
+  datos: Buffer;
+  /** Píxeles */
+  ancho: number;
+  alto: number;
+}
+
+/** IHDR: ancho y alto en los bytes 16-23 */
+function dimensionesPng(datos: Buffer): [number, number] | null {
+  if (datos.length < 24 || datos.toString("ascii", 1, 4) !== "PNG") return null;
+  return [datos.readUInt32BE(16), datos.readUInt32BE(20)];
+}
+
+/** Recorre los segmentos hasta el primer SOF (C0-CF salvo C4, C8 y CC) */
+function dimensionesJpeg(datos: Buffer): [number, number] | null {
+  if (datos.length < 4 || datos[0] !== 0xff || datos[1] !== 0xd8) return null;
+  let i = 2;
+  while (i + 9 < datos.length) {
+    if (datos[i] !== 0xff) return null;
+    const marcador = datos[i + 1];
+    if (marcador === 0xff) {
+      i++;
+      continue;
+    }
+    if (marcador >= 0xc0 && marcador <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marcador)) {
+      return [datos.readUInt16BE(i + 7), datos.readUInt16BE(i + 5)];
+    }
+    i += 2 + datos.readUInt16BE(i + 2);
+  }
+  return null;
+}
+
+export function imagenAnexo(doc: AnnexDocument): ImagenAnexo | null {
+  if (doc.kind !== "image" || !doc.base64) return null;
+  const datos = Buffer.from(doc.base64, "base64");
+  const png = dimensionesPng(datos);
+  const dimensiones = png || dimensionesJpeg(datos);
+  if (!dimensiones || !dimensiones[0] || !dimensiones[1]) return null;
+  return { formato: png ? "png" : "jpg", datos, ancho: dimensiones[0], alto: dimensiones[1] };
+}
+
+/** Ajusta la imagen a la caja conservando la proporción, sin ampliarla */
+export function encajar(imagen: ImagenAnexo, ancho: number, alto: number): { width: number; height: number } {
+  const escala = Math.min(1, ancho / imagen.ancho, alto / imagen.alto);
+  return { width: Math.round(imagen.ancho * escala), height: Math.round(imagen.alto * escala) };
+}
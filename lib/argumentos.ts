@@ -0,0 +1,99 @@
+/**
+ * lib/argumentos.ts
+ *
+ * Biblioteca de argumentos reutilizables (data/argumentos.json), etiquetados
+ * por artículo, organismo y fase. Sugiere los que encajan con la multa y
+ * convierte los elegidos en argumentos obligatorios para el prompt. Sin
+ * dependencias de servidor.
+ */
+
+import biblioteca from "../data/argumentos.json";
+import { parsearArticulo } from "./infracciones";
+import type { MultaData } from "./multa";
+import { buscarOrganismo, TipoOrganismo } from "./organismos";
+import type { FaseProcedimiento } from "./tramite";
+
+export interface EtiquetasArgumento {
+  /** "RGC 94": norma y artículo, sin apartado */
+  articulos?: string[];
+  /** Expresiones regulares sobre el texto de la multa, sin distinguir mayúsculas */
+  patrones?: string[];
+  organismos?: TipoOrganismo[];
+  fases?: FaseProcedimiento[];
+}
+
+export interface Argumento {
+  id: string;
+  titulo: string;
+  /** Para la pantalla de revisión */
+  resumen: string;
+  /** Lo que recibe el modelo: fundamento y normas que lo sostienen */
+  texto: string;
+  /** Diligencia de prueba que conviene pedir junto al argumento */
+  prueba?: string;
+  etiquetas: EtiquetasArgumento;
+}
+
+interface BibliotecaArgumentos {
+  version: number;
+  actualizado: string;
+  argumentos: Argumento[];
+}
+
+const BIBLIOTECA = biblioteca as BibliotecaArgumentos;
+
+export const ARGUMENTOS = BIBLIOTECA.argumentos;
+
+export const VERSION_ARGUMENTOS = `v${BIBLIOTECA.version} (${BIBLIOTECA.actualizado})`;
+
+// ─── Sugerencias ──────────────────────────────────────────────────────────────
+
+export interface Sugerencia {
+  argumento: Argumento;
+  /** Por qué encaja: "art. RGC 94", "menciona «zona azul»", "organismo: ora", "fase: apremio" */
+  motivos: string[];
+}
+
+/**
+ * Un argumento se sugiere si su fase y su tipo de organismo (cuando los
+ * indica) coinciden y, si está etiquetado por infracción, al menos un
+ * artículo o patrón aparece en la multa. Los más concretos van primero.
+ */
+export function sugerirArgumentos(multa: MultaData, fase: FaseProcedimiento): Sugerencia[] {
+  const articulos = new Set(
+    multa.articulos.map((a) => parsearArticulo(a)).flatMap((r) => (r ? [`${r.norma} ${r.articulo}`] : []))
+  );
+  const texto = [multa.tipoInfraccion, multa.textoLiteral, multa.observaciones, multa.organismo].join("\n");
+  const tipoOrganismo = buscarOrganismo(multa).organismo.tipo;
+
+  const sugerencias: Sugerencia[] = [];
+  for (const argumento of ARGUMENTOS) {
+    const { fases, organismos, articulos: etiquetaArticulos = [], patrones = [] } = argumento.etiquetas;
+    if (fases && !fases.includes(fase)) continue;
+    if (organismos && !organismos.includes(tipoOrganismo)) continue;
+
+    const motivos = etiquetaArticulos.filter((a) => articulos.has(a)).map((a) => `art. ${a}`);
+    for (const p of patrones) {
+      const m = texto.match(new RegExp(p, "i"));
+      if (m) motivos.push(`menciona «${m[0].trim()}»`);
+    }
+    if ((etiquetaArticulos.length > 0 || patrones.length > 0) && motivos.length === 0) continue;
+    if (organismos) motivos.push(`organismo: ${tipoOrganismo}`);
+    // Los que solo dependen de la fase valen para cualquier multa en ese punto del procedimiento
+    if (motivos.length === 0 && fases) motivos.push(`fase: ${fase}`);
+    sugerencias.push({ argumento, motivos });
+  }
+  return sugerencias.sort((a, b) => b.motivos.length - a.motivos.length);
+}
+
+// ─── Bloque para el prompt ────────────────────────────────────────────────────
+
+/** Ids desconocidos se ignoran: la biblioteca puede haber cambiado desde que se eligieron */
+export function formatArgumentos(ids: string[]): string {
+  const elegidos = ARGUMENTOS.filter((a) => ids.includes(a.id));
+  if (elegidos.length === 0) return "";
+  const lineas = elegidos.map(
+    (a) => `ARGUMENTO OBLIGATORIO — ${a.titulo}. ${a.texto}${a.prueba ? `\nPRUEBA — Solicita: ${a.prueba}` : ""}`
+  );
+  return `=== ARGUMENTOS OBLIGATORIOS (biblioteca ${VERSION_ARGUMENTOS}) ===\nEl usuario ha elegido estos argumentos: desarrolla todos en los fundamentos de derecho, adaptados a los hechos de la multa.\n${lineas.join("\n")}\n\n`;
+}
@@ -0,0 +1,244 @@
+/**
+ * lib/case-store.ts
+ *
+ * Almacén de casos en el servidor para compartirlos entre varias personas
+ * (solo servidor). Es opcional y se activa con CASES_STORAGE:
+ *   CASES_STORAGE=file → un JSON por caso en CASES_DIR (por defecto .recursapp/casos)
+ * Otros backends (SQLite, Postgres…) se añaden con registerCaseStore.
+ */
+
+import { randomBytes } from "crypto";
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "fs/promises";
+import path from "path";
+import type { CaseRecord, CaseSummary, CreateCaseRequest, UpdateCaseRequest } from "./contracts";
+import { EstadoCaso, esEstadoCaso, resumenDeRegistro } from "./casos";
+import { NOT_AN_OBJECT, SIN_DATOS_BASICOS, emptyMultaData, normalizeDate, validateMultaData } from "./multa";
+import { COMUNIDADES, PROCEDIMIENTOS } from "./plazos";
+import { ESCRITOS } from "./tramite";
+
+export interface FiltroCasos {
+  estado?: EstadoCaso;
+  /** Se compara sin espacios ni guiones y sin distinguir mayúsculas */
+  matricula?: string;
+}
+
+export interface CaseStore {
+  id: string;
+  list(filtro?: FiltroCasos): Promise<CaseSummary[]>;
+  get(id: string): Promise<CaseRecord | null>;
+  /** null si ya existe un caso con ese id */
+  create(caso: CreateCaseRequest): Promise<CaseRecord | null>;
+  /** null si el caso no existe */
+  update(id: string, cambios: UpdateCaseRequest): Promise<CaseRecord | null>;
+  remove(id: string): Promise<boolean>;
+}
+
+export const SIN_ALMACEN = "El almacenamiento de casos en el servidor no está activado (CASES_STORAGE)";
+
+/** Ids aceptados: los del historial del navegador (caso-…) o los generados aquí */
+export const esIdCaso = (id: string) => /^[a-z0-9][a-z0-9-]{0,63}$/i.test(id);
+
+const normalizarMatricula = (m: string) => m.toUpperCase().replace(/[\s-]/g, "");
+
+export function filtrarCasos(casos: CaseRecord[], filtro: FiltroCasos = {}): CaseRecord[] {
+  return casos.filter(
+    (c) =>
+      (!filtro.estado || c.estado === filtro.estado) &&
+      (!filtro.matricula || normalizarMatricula(c.multaData?.matricula || "") === normalizarMatricula(filtro.matricula))
+  );
+}
+
+// ─── Validación ───────────────────────────────────────────────────────────────
+
+const esTexto = (v: unknown) => typeof v === "string";
+const esLista = (v: unknown) => Array.isArray(v);
+
+/**
+ * Lo que POST y PATCH pueden escribir y la forma que debe tener cada campo.
+ * id, creado y actualizado los pone el almacén; multaData, escrito y
+ * plazoConfig se comprueban aparte porque el panel de plazos los lee siempre.
+ */
+const CAMPOS: Record<Exclude<keyof UpdateCaseRequest, "multaData" | "escrito" | "plazoConfig">, (v: unknown) => boolean> = {
+  estado: esEstadoCaso,
+  fechaPresentacion: (v) => esTexto(v) && normalizeDate(v) !== null,
+  argumentos: (v) => esLista(v) && (v as unknown[]).every(esTexto),
+  additionalContext: esTexto,
+  plantilla: esTexto,
+  agentResults: esLista,
+  masterRecurso: esTexto,
+  masterError: esTexto,
+  masterCitas: (v) => typeof v === "object",
+  instructions: esTexto,
+  parseWarnings: esLista,
+  supportDocuments: esLista,
+};
+
+function errorPlazoConfig(v: unknown): string | null {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return "plazoConfig debe ser un objeto { procedimiento, comunidad?, festivosLocales? }";
+  const { procedimiento, comunidad, festivosLocales } = v as Record<string, unknown>;
+  if (typeof procedimiento !== "string" || !Object.keys(PROCEDIMIENTOS).includes(procedimiento)) {
+    return `Procedimiento desconocido: ${procedimiento}`;
+  }
+  if (comunidad !== undefined && comunidad !== "" && (typeof comunidad !== "string" || !Object.keys(COMUNIDADES).includes(comunidad))) {
+    return `Comunidad desconocida: ${comunidad}`;
+  }
+  if (festivosLocales !== undefined && !(esLista(festivosLocales) && (festivosLocales as unknown[]).every((f) => esTexto(f) && /^\d{4}-\d{2}-\d{2}$/.test(f as string)))) {
+    return "festivosLocales debe ser una lista de fechas AAAA-MM-DD";
+  }
+  return null;
+}
+
+/**
+ * Comprueba el cuerpo de POST (completo) o PATCH (parcial) y devuelve los
+ * campos que se guardan, con multaData normalizado; o el motivo del 400.
+ */
+export function validarCaso(cuerpo: unknown, parcial: boolean): { caso: UpdateCaseRequest } | { error: string } {
+  if (!cuerpo || typeof cuerpo !== "object" || Array.isArray(cuerpo)) return { error: "El cuerpo debe ser un objeto JSON" };
+  const campos = cuerpo as Record<string, unknown>;
+  const caso: Record<string, unknown> = {};
+
+  for (const [clave, valor] of Object.entries(campos)) {
+    // El id de un caso nuevo lo comprueba POST con esIdCaso
+    if (["multaData", "escrito", "plazoConfig"].includes(clave) || (clave === "id" && !parcial)) continue;
+    if (!Object.keys(CAMPOS).includes(clave)) {
+      return { error: ["id", "creado", "actualizado"].includes(clave) ? `${clave} no se puede cambiar` : `Campo desconocido: ${clave}` };
+    }
+    if (valor === undefined) continue;
+    if (!CAMPOS[clave as keyof typeof CAMPOS](valor)) {
+      return { error: clave === "estado" ? `Estado desconocido: ${valor}` : `${clave} no tiene el formato esperado` };
+    }
+    caso[clave] = valor;
+  }
+  // Se guarda en ISO aunque llegue como DD/MM/AAAA
+  if (typeof caso.fechaPresentacion === "string") caso.fechaPresentacion = normalizeDate(caso.fechaPresentacion);
+
+  if (campos.multaData !== undefined || !parcial) {
+    const { data, errors } = validateMultaData(campos.multaData);
+    if (errors.includes(NOT_AN_OBJECT)) return { error: "multaData debe ser un objeto" };
+    const problemas = errors.filter((e) => e !== SIN_DATOS_BASICOS);
+    if (problemas.length) return { error: `multaData no es válido: ${problemas.join("; ")}` };
+    caso.multaData = data;
+  }
+  if (campos.escrito !== undefined || !parcial) {
+    if (typeof campos.escrito !== "string" || !Object.keys(ESCRITOS).includes(campos.escrito)) {
+      return { error: `Tipo de escrito desconocido: ${campos.escrito}` };
+    }
+    caso.escrito = campos.escrito;
+  }
+  if (campos.plazoConfig !== undefined) {
+    const error = errorPlazoConfig(campos.plazoConfig);
+    if (error) return { error };
+    caso.plazoConfig = campos.plazoConfig;
+  }
+  return { caso: caso as UpdateCaseRequest };
+}
+
+/** Completa un caso nuevo con id, fechas y estado inicial */
+export function nuevoRegistro(caso: CreateCaseRequest): CaseRecord {
+  const ahora = new Date().toISOString();
+  return {
+    ...caso,
+    id: caso.id || `caso-${Date.now()}-${randomBytes(3).toString("hex")}`,
+    creado: ahora,
+    actualizado: ahora,
+    estado: caso.estado || "borrador",
+    plazoConfig: caso.plazoConfig || { procedimiento: ESCRITOS[caso.escrito].plazo },
+  };
+}
+
+// ─── Ficheros JSON ────────────────────────────────────────────────────────────
+
+/**
+ * Un fichero por caso: basta para un equipo pequeño en un mismo servidor.
+ * Los cambios se escriben en un temporal y se renombran para no dejar JSON
+ * a medias; un caso nuevo se crea con wx para no pisar otro con el mismo id.
+ */
+export function createFileCaseStore(dir: string): CaseStore {
+  const fichero = (id: string) => path.join(dir, `${id}.json`);
+
+  async function leer(id: string): Promise<CaseRecord | null> {
+    try {
+      const caso: CaseRecord = JSON.parse(await readFile(fichero(id), "utf8"));
+      // Los casos guardados antes de validar PATCH pueden no tener multaData
+      return { ...caso, multaData: caso.multaData || emptyMultaData() };
+    } catch {
+      return null;
+    }
+  }
+
+  async function escribir(caso: CaseRecord) {
+    await mkdir(dir, { recursive: true });
+    const tmp = `${fichero(caso.id)}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(caso, null, 2), "utf8");
+    await rename(tmp, fichero(caso.id));
+  }
+
+  async function todos(): Promise<CaseRecord[]> {
+    let nombres: string[];
+    try {
+      nombres = await readdir(dir);
+    } catch {
+      return [];
+    }
+    const casos = await Promise.all(
+      nombres.filter((n) => n.endsWith(".json")).map((n) => leer(n.slice(0, -".json".length)))
+    );
+    return casos.filter((c): c is CaseRecord => c !== null);
+  }
+
+  return {
+    id: "file",
+    async list(filtro) {
+      const casos = filtrarCasos(await todos(), filtro);
+      return casos.sort((a, b) => b.actualizado.localeCompare(a.actualizado)).map(resumenDeRegistro);
+    },
+    get: (id) => (esIdCaso(id) ? leer(id) : Promise.resolve(null)),
+    async create(caso) {
+      const registro = nuevoRegistro(caso);
+      await mkdir(dir, { recursive: true });
+      try {
+        await writeFile(fichero(registro.id), JSON.stringify(registro, null, 2), { encoding: "utf8", flag: "wx" });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "EEXIST") return null;
+        throw err;
+      }
+      return registro;
+    },
+    async update(id, cambios) {
+      const actual = esIdCaso(id) ? await leer(id) : null;
+      if (!actual) return null;
+      const caso = { ...actual, ...cambios, id, creado: actual.creado, actualizado: new Date().toISOString() };
+      await escribir(caso);
+      return caso;
+    },
+    async remove(id) {
+      if (!esIdCaso(id)) return false;
+      try {
+        await unlink(fichero(id));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+// ─── Registro ─────────────────────────────────────────────────────────────────
+
+const backends = new Map<string, () => CaseStore>();
+
+export function registerCaseStore(id: string, factory: () => CaseStore) {
+  backends.set(id, factory);
+}
+
+registerCaseStore("file", () => createFileCaseStore(path.resolve(process.env.CASES_DIR || ".recursapp/casos")));
+
+let activo: CaseStore | null = null;
+
+/** null si CASES_STORAGE no está definido o nombra un backend desconocido */
+export function getCaseStore(): CaseStore | null {
+  const id = process.env.CASES_STORAGE;
+  if (!id || !backends.has(id)) return null;
+  if (activo?.id !== id) activo = backends.get(id)!();
+  return activo;
+}
@@ -0,0 +1,202 @@
+/**
+ * lib/casos.ts
+ *
+ * Historial de casos en el navegador (IndexedDB): cada análisis se guarda
+ * con los datos de la multa, los borradores, el recurso definitivo, las
+ * instrucciones y los .docx descargados, para que un refresco o "Nueva
+ * multa" no pierdan nada. El panel de /casos los ordena por plazo y, si el
+ * servidor tiene historial compartido (/api/cases), los sube y trae de ahí.
+ * Solo cliente.
+ */
+
+import type { AgentResult, CaseRecord, CaseSummary, CreateCaseRequest, SupportDocument } from "./contracts";
+import type { RevisionCitas } from "./citas";
+import type { MultaData } from "./multa";
+import { ConfigPlazo, ResultadoPlazo, calcularPlazo } from "./plazos";
+import type { TipoEscrito } from "./tramite";
+
+export type EstadoCaso = "borrador" | "presentado" | "estimado" | "desestimado";
+
+export const ESTADOS_CASO: Record<EstadoCaso, { label: string; color: string }> = {
+  borrador: { label: "Borrador", color: "#c9a84c" },
+  presentado: { label: "Presentado", color: "#fbbf24" },
+  estimado: { label: "Resuelto · estimado", color: "#4ade80" },
+  desestimado: { label: "Resuelto · desestimado", color: "#f87171" },
+};
+
+export const esEstadoCaso = (v: unknown): v is EstadoCaso => typeof v === "string" && Object.keys(ESTADOS_CASO).includes(v);
+
+export interface FicheroCaso {
+  nombre: string;
+  /** ISO con hora */
+  fecha: string;
+  blob: Blob;
+}
+
+export interface Caso {
+  id: string;
+  creado: string;
+  actualizado: string;
+  estado: EstadoCaso;
+  /** ISO; se rellena al marcarlo como presentado */
+  fechaPresentacion?: string;
+  multaData: MultaData;
+  escrito: TipoEscrito;
+  plazoConfig: ConfigPlazo;
+  argumentos: string[];
+  additionalContext: string;
+  /** Plantilla del documento elegida a mano; sin ella, la automática */
+  plantilla?: string;
+  agentResults: AgentResult[];
+  masterRecurso: string;
+  masterError?: string;
+  masterCitas?: RevisionCitas | null;
+  instructions: string;
+  supportDocuments: SupportDocument[];
+  /** La multa tal y como se subió, para el paquete de presentación */
+  original?: FicheroCaso;
+  /** Ficheros de la documentación de apoyo, en el orden de su numeración (Documento nº 1, 2…) */
+  pruebas?: FicheroCaso[];
+  ficheros: FicheroCaso[];
+}
+
+export const nuevoIdCaso = () => `caso-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Título corto para listados: expediente, organismo o fecha de creación */
+export const tituloCaso = (c: Pick<Caso, "multaData" | "creado">) =>
+  [c.multaData.expediente && `Exp. ${c.multaData.expediente}`, c.multaData.organismo].filter(Boolean).join(" · ") ||
+  `Caso del ${c.creado.slice(0, 10)}`;
+
+// ─── IndexedDB ────────────────────────────────────────────────────────────────
+
+const DB_NAME = "recursapp";
+const DB_VERSION = 1;
+const STORE = "casos";
+
+function abrir(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function transaccion<T>(modo: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await abrir();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = op(db.transaction(STORE, modo).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function guardarCaso(caso: Caso): Promise<Caso> {
+  const guardado = { ...caso, actualizado: new Date().toISOString() };
+  await transaccion("readwrite", (s) => s.put(guardado));
+  return guardado;
+}
+
+export const obtenerCaso = (id: string) => transaccion<Caso | undefined>("readonly", (s) => s.get(id));
+
+export const listarCasos = () => transaccion<Caso[]>("readonly", (s) => s.getAll());
+
+export const borrarCaso = (id: string) => transaccion("readwrite", (s) => s.delete(id));
+
+/** Aplica cambios sobre la versión guardada; no hace nada si el caso ya no existe */
+export async function actualizarCaso(id: string, cambios: (c: Caso) => Partial<Caso>): Promise<Caso | null> {
+  const caso = await obtenerCaso(id);
+  if (!caso) return null;
+  return guardarCaso({ ...caso, ...cambios(caso) });
+}
+
+// ─── Plazos del panel ─────────────────────────────────────────────────────────
+
+/** Lo mínimo para ordenar: vale para los casos locales y para los resúmenes de /api/cases */
+type CasoOrdenable = Pick<Caso, "estado" | "multaData" | "plazoConfig" | "actualizado">;
+
+export interface CasoConPlazo<T extends CasoOrdenable = Caso> {
+  caso: T;
+  /** Solo en borradores: después de presentar ya no corre el plazo del escrito */
+  plazo: ResultadoPlazo | null;
+}
+
+/**
+ * Primero los borradores con plazo abierto (el que vence antes arriba),
+ * luego los vencidos y los que no tienen fecha de notificación, y al final
+ * los ya presentados o resueltos, del más reciente al más antiguo.
+ */
+export function ordenarPorPlazo<T extends CasoOrdenable>(casos: T[]): CasoConPlazo<T>[] {
+  const conPlazo = casos.map((caso) => ({
+    caso,
+    plazo: caso.estado === "borrador" ? calcularPlazo(caso.multaData.fechaNotificacion, caso.plazoConfig) : null,
+  }));
+  const grupo = ({ caso, plazo }: CasoConPlazo<T>) =>
+    caso.estado !== "borrador" ? 3 : !plazo ? 2 : plazo.vencido ? 1 : 0;
+  return conPlazo.sort((a, b) => {
+    const ga = grupo(a), gb = grupo(b);
+    if (ga !== gb) return ga - gb;
+    if (ga === 0) return a.plazo!.diasRestantes - b.plazo!.diasRestantes;
+    return b.caso.actualizado.localeCompare(a.caso.actualizado);
+  });
+}
+
+// ─── Historial compartido (/api/cases) ────────────────────────────────────────
+
+/** Lo que se sube al servidor: todo salvo los .docx descargados */
+export function registroDeCaso(c: Caso): CreateCaseRequest {
+  return {
+    id: c.id,
+    estado: c.estado,
+    fechaPresentacion: c.fechaPresentacion,
+    plazoConfig: c.plazoConfig,
+    argumentos: c.argumentos,
+    additionalContext: c.additionalContext,
+    plantilla: c.plantilla,
+    agentResults: c.agentResults,
+    masterRecurso: c.masterRecurso,
+    masterError: c.masterError,
+    masterCitas: c.masterCitas || undefined,
+    instructions: c.instructions,
+    multaData: c.multaData,
+    parseWarnings: [],
+    supportDocuments: c.supportDocuments,
+    escrito: c.escrito,
+  };
+}
+
+/** Lo que devuelve GET /api/cases para cada caso */
+export function resumenDeRegistro(r: CaseRecord): CaseSummary {
+  const { id, creado, actualizado, estado, fechaPresentacion, multaData, escrito, plazoConfig } = r;
+  return { id, creado, actualizado, estado, fechaPresentacion, multaData, escrito, plazoConfig };
+}
+
+/** Un caso del equipo traído al navegador para abrirlo en /recursos */
+export function casoDeRegistro(r: CaseRecord): Caso {
+  return {
+    id: r.id,
+    creado: r.creado,
+    actualizado: r.actualizado,
+    estado: r.estado,
+    fechaPresentacion: r.fechaPresentacion,
+    multaData: r.multaData,
+    escrito: r.escrito,
+    plazoConfig: r.plazoConfig,
+    argumentos: r.argumentos || [],
+    additionalContext: r.additionalContext || "",
+    plantilla: r.plantilla,
+    agentResults: r.agentResults,
+    masterRecurso: r.masterRecurso,
+    masterError: r.masterError,
+    masterCitas: r.masterCitas,
+    instructions: r.instructions,
+    supportDocuments: r.supportDocuments,
+    ficheros: [],
+  };
+}
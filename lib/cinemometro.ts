@@ -0,0 +1,183 @@
+/**
+ * lib/cinemometro.ts
+ *
+ * Excesos de velocidad: margen de error del cinemómetro (Orden ITC/3123/2010),
+ * velocidad corregida y tramo de multa y puntos que le corresponde según el
+ * Anexo IV de la LSV. Si el boletín aplicó un tramo distinto, genera el
+ * argumento. Sin dependencias de servidor.
+ */
+
+import type { MultaData } from "./multa";
+
+// ─── Margen de error ──────────────────────────────────────────────────────────
+
+export type TipoCinemometro = "fijo" | "movil";
+
+/** Errores máximos permitidos en servicio: km/h hasta 100 km/h y % por encima */
+export const MARGENES: Record<TipoCinemometro, { label: string; kmh: number; porcentaje: number }> = {
+  fijo: { label: "Fijo, estático o de tramo", kmh: 5, porcentaje: 5 },
+  movil: { label: "Instalado en vehículo en movimiento", kmh: 7, porcentaje: 7 },
+};
+
+const INDICIOS_MOVIL = /cinem[oó]metro m[oó]vil|en movimiento|veh[ií]culo (en marcha|camuflado|policial)|helic[oó]ptero|pegasus/;
+
+export function margenError(medida: number, tipo: TipoCinemometro): number {
+  const m = MARGENES[tipo];
+  return medida <= 100 ? m.kmh : (medida * m.porcentaje) / 100;
+}
+
+/** Se redondea a la baja: la duda sobre la décima favorece al denunciado */
+export const velocidadCorregida = (medida: number, tipo: TipoCinemometro) => Math.floor(medida - margenError(medida, tipo));
+
+// ─── Anexo IV LSV ─────────────────────────────────────────────────────────────
+
+export interface TramoSancion {
+  importe: number;
+  puntos: number;
+  /** Velocidad mínima del tramo, km/h */
+  desde: number;
+  /** Velocidad máxima del tramo; null en el último */
+  hasta: number | null;
+}
+
+const IMPORTES = [
+  { importe: 100, puntos: 0 },
+  { importe: 300, puntos: 2 },
+  { importe: 400, puntos: 4 },
+  { importe: 500, puntos: 6 },
+  { importe: 600, puntos: 6 },
+];
+
+/** Primera velocidad de los tramos de 300, 400, 500 y 600 € para cada límite genérico */
+const UMBRALES: Record<number, [number, number, number, number]> = {
+  20: [41, 51, 61, 71],
+  30: [51, 61, 71, 81],
+  40: [61, 71, 81, 91],
+  50: [71, 81, 91, 101],
+  60: [91, 111, 121, 131],
+  70: [101, 121, 131, 141],
+  80: [111, 131, 141, 151],
+  90: [121, 141, 151, 161],
+  100: [131, 151, 161, 171],
+  110: [141, 161, 171, 181],
+  120: [151, 171, 181, 191],
+};
+
+/** null si no hay exceso o el límite no figura en el Anexo IV */
+export function tramoSancion(limite: number, velocidad: number): TramoSancion | null {
+  const umbrales = UMBRALES[limite];
+  if (!umbrales || velocidad <= limite) return null;
+  const desdes = [limite + 1, ...umbrales];
+  const i = desdes.filter((d) => velocidad >= d).length - 1;
+  return { ...IMPORTES[i], desde: desdes[i], hasta: i + 1 < desdes.length ? desdes[i + 1] - 1 : null };
+}
+
+/** Art. 379.1 CP: más de 60 km/h por encima en vía urbana o de 80 en interurbana */
+export const esDelito = (limite: number, velocidad: number) => velocidad - limite > (limite <= 50 ? 60 : 80);
+
+// ─── Análisis de la multa ─────────────────────────────────────────────────────
+
+export interface AnalisisVelocidad {
+  medida: number;
+  limite: number;
+  tipo: TipoCinemometro;
+  margen: number;
+  corregida: number;
+  /** Tramo que corresponde a la velocidad corregida; null si no hay exceso o el límite no está en el Anexo IV */
+  tramo: TramoSancion | null;
+  /** Velocidad corregida que figura en el boletín, si la indica */
+  corregidaBoletin: number | null;
+  /** El boletín no aplicó el margen, o aplicó uno menor */
+  margenInsuficiente: boolean;
+  /** El importe o los puntos del boletín no son los del tramo correcto (false si no hay exceso) */
+  tramoIncorrecto: boolean;
+  delito: boolean;
+}
+
+const VELOCIDADES = [
+  /(?:circular|circulaba|velocidad(?: medida| registrada| detectada)?)\D{0,20}(\d{2,3})\s*km\/h.{0,80}?(?:limitad[ao]|l[ií]mite|m[aá]xim[ao])\D{0,20}(\d{2,3})\s*km\/h/,
+  /(\d{2,3})\s*km\/h\s*(?:en|,)?\s*(?:v[ií]a|tramo|zona)?\s*limitad[ao] a (\d{2,3})\s*km\/h/,
+];
+
+function velocidadesDelTexto(multa: MultaData): { medida: number; limite: number } | null {
+  const texto = [multa.tipoInfraccion, multa.textoLiteral, multa.observaciones].join("\n").toLowerCase();
+  for (const re of VELOCIDADES) {
+    const m = texto.match(re);
+    if (m) return { medida: Number(m[1]), limite: Number(m[2]) };
+  }
+  return null;
+}
+
+/** null si la multa no es un exceso de velocidad con medida y límite conocidos */
+export function analizarVelocidad(multa: MultaData, tipo?: TipoCinemometro): AnalisisVelocidad | null {
+  const delTexto = multa.velocidadMedida && multa.velocidadLimite ? null : velocidadesDelTexto(multa);
+  const medida = multa.velocidadMedida || delTexto?.medida;
+  const limite = multa.velocidadLimite || delTexto?.limite;
+  if (!medida || !limite) return null;
+
+  const texto = [multa.tipoInfraccion, multa.textoLiteral, multa.observaciones].join("\n").toLowerCase();
+  const cinemometro = tipo || (INDICIOS_MOVIL.test(texto) ? "movil" : "fijo");
+  const corregida = velocidadCorregida(medida, cinemometro);
+  const tramo = tramoSancion(limite, corregida);
+  const corregidaBoletin = multa.velocidadCorregida;
+
+  const margenInsuficiente = corregidaBoletin !== null ? corregidaBoletin > corregida : false;
+  // El boletín puede indicar el importe con la reducción del 50 % por pronto pago
+  const tramoIncorrecto =
+    !!tramo &&
+    ((multa.importe !== null && multa.importe !== tramo.importe && multa.importe !== tramo.importe / 2) ||
+      (multa.puntos !== null && multa.puntos !== tramo.puntos));
+
+  return {
+    medida,
+    limite,
+    tipo: cinemometro,
+    margen: Math.round(margenError(medida, cinemometro) * 10) / 10,
+    corregida,
+    tramo,
+    corregidaBoletin,
+    margenInsuficiente,
+    tramoIncorrecto,
+    delito: esDelito(limite, corregida),
+  };
+}
+
+// ─── Bloque para el prompt ────────────────────────────────────────────────────
+
+const describirTramo = (t: TramoSancion) =>
+  `${t.importe} € y ${t.puntos} puntos (${t.hasta ? `de ${t.desde} a ${t.hasta}` : `desde ${t.desde}`} km/h)`;
+
+export function formatVelocidad(a: AnalisisVelocidad, multa: MultaData): string {
+  const lineas = [
+    `Cinemómetro ${MARGENES[a.tipo].label.toLowerCase()}: velocidad medida ${a.medida} km/h, margen ${a.margen} km/h, velocidad corregida ${a.corregida} km/h en vía limitada a ${a.limite} km/h.`,
+  ];
+  if (a.margenInsuficiente) {
+    lineas.push(
+      `ARGUMENTO VERIFICADO — Margen de error mal aplicado: el boletín da ${a.corregidaBoletin} km/h como velocidad corregida y la correcta es ${a.corregida} km/h (Orden ITC/3123/2010).`
+    );
+  }
+  if (a.corregida <= a.limite) {
+    lineas.push(
+      "ARGUMENTO VERIFICADO — Sin exceso tras aplicar el margen de error (Orden ITC/3123/2010): la velocidad corregida no supera el límite. Solicita el archivo por falta de tipicidad."
+    );
+  } else if (!a.tramo) {
+    lineas.push(`El límite de ${a.limite} km/h no es uno de los genéricos del Anexo IV LSV: no se puede comprobar el tramo.`);
+  } else if (a.tramoIncorrecto) {
+    const impuesto = [
+      multa.importe !== null ? `${multa.importe} €` : "",
+      multa.puntos !== null ? `${multa.puntos} puntos` : "",
+    ].filter(Boolean).join(" y ");
+    lineas.push(
+      `ARGUMENTO VERIFICADO — Tramo de sanción incorrecto: a ${a.corregida} km/h en vía de ${a.limite} km/h corresponden ${describirTramo(a.tramo)} según el Anexo IV LSV, y el boletín impone ${impuesto}. Pide subsidiariamente la sanción del tramo correcto.`
+    );
+  } else {
+    lineas.push(`El importe y los puntos coinciden con el tramo de la velocidad corregida: ${describirTramo(a.tramo)}. No alegues error de tramo.`);
+  }
+  if (a.delito) {
+    lineas.push("⚠️ La velocidad corregida supera el umbral del art. 379.1 CP: no propongas argumentos que admitan la velocidad.");
+  }
+  lineas.push(
+    "PRUEBA — Solicita en todo caso: certificado de verificación periódica del cinemómetro vigente en la fecha de la infracción (Orden ITC/3123/2010), certificado de aprobación de modelo, fotografía completa con los datos de la medición y, si es móvil, acreditación de que la medición se hizo conforme a su manual."
+  );
+  return `=== CINEMÓMETRO Y MARGEN DE ERROR (cálculo verificado) ===\n${lineas.join("\n")}\n\n`;
+}
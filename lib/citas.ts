@@ -0,0 +1,187 @@
+/**
+ * lib/citas.ts
+ *
+ * Verificador de citas legales: extrae de un escrito los artículos citados
+ * ("art. 24.2 CE", "artículos 123 y 124 de la Ley 39/2015") y las sentencias,
+ * los contrasta con el corpus local (data/corpus-legal.json) y adjunta el
+ * texto real del artículo. Lo que no se puede comprobar queda marcado para
+ * que el usuario lo revise antes de descargar. Sin dependencias de servidor.
+ */
+
+import corpus from "../data/corpus-legal.json";
+
+export interface Norma {
+  id: string;
+  nombre: string;
+  abreviatura: string;
+  /** Expresiones regulares, sin distinguir mayúsculas */
+  patrones: string[];
+  /** Número del último artículo; sin él no se puede afirmar que un artículo no existe */
+  articulos?: number;
+  /** Norma que la sustituyó, si está derogada */
+  derogada?: string;
+  fuente?: string;
+}
+
+export interface ArticuloCorpus {
+  norma: string;
+  articulo: string;
+  titulo: string;
+  /** Apartados relevantes del texto consolidado; "[…]" marca lo omitido */
+  texto: string;
+}
+
+interface CorpusLegal {
+  version: number;
+  actualizado: string;
+  normas: Norma[];
+  articulos: ArticuloCorpus[];
+}
+
+const CORPUS = corpus as CorpusLegal;
+
+export const VERSION_CORPUS = `v${CORPUS.version} (${CORPUS.actualizado})`;
+
+const NORMAS = CORPUS.normas.map((norma) => ({
+  norma,
+  patrones: norma.patrones.map((p) => new RegExp(p, "i")),
+}));
+
+// ─── Resultado ────────────────────────────────────────────────────────────────
+
+/**
+ * verificada: el artículo está en el corpus y se adjunta su texto.
+ * sin_texto: la norma es conocida pero el artículo no está en el corpus.
+ * inexistente: el número supera el último artículo de la norma.
+ * derogada: la norma citada ya no está en vigor.
+ * no_verificable: jurisprudencia, que no se puede contrastar sin conexión.
+ */
+export type EstadoCita = "verificada" | "sin_texto" | "inexistente" | "derogada" | "no_verificable";
+
+export interface Cita {
+  /** Fragmento del escrito tal y como aparece */
+  texto: string;
+  estado: EstadoCita;
+  norma?: Norma;
+  articulo?: string;
+  apartado?: string;
+  /** Solo en las verificadas */
+  corpus?: ArticuloCorpus;
+}
+
+export interface RevisionCitas {
+  citas: Cita[];
+  /** Número de citas que no son "verificada" */
+  pendientes: number;
+}
+
+// ─── Extracción ───────────────────────────────────────────────────────────────
+
+/** "art. 24.2", "arts. 123 y 124", "arts. 123 a 125", "artículo 30.4, apartado b)" */
+const ARTICULOS = /\b(?:art[ií]culos?|arts?\.)\s*(\d{1,3}(?:\s*bis)?(?:\.\d{1,2})*(?:\s*(?:,|y|e|a)\s*\d{1,3}(?:\s*bis)?(?:\.\d{1,2})*)*)/gi;
+
+/** "arts. 123 a 125": rango de artículos enteros, que se comprueban uno a uno */
+const RANGO = /^(\d{1,3})\s+a\s+(\d{1,3})$/i;
+
+/** Un rango más largo es casi seguro una errata: se comprueban solo sus extremos */
+const MAX_RANGO = 30;
+
+/** "123, 124 y 126" → 123, 124, 126; "123 a 125" → 123, 124, 125 */
+function numerosCitados(lista: string): string[] {
+  return lista
+    .split(/\s*(?:,|\by\b|\be\b)\s*/i)
+    .filter(Boolean)
+    .flatMap((parte) => {
+      const rango = parte.match(RANGO);
+      if (rango) {
+        const [desde, hasta] = [Number(rango[1]), Number(rango[2])];
+        if (hasta > desde && hasta - desde <= MAX_RANGO) {
+          return Array.from({ length: hasta - desde + 1 }, (_, i) => String(desde + i));
+        }
+      }
+      return parte.split(/\s*\ba\b\s*/i).filter(Boolean);
+    });
+}
+
+/** La norma debe aparecer justo después del número: "de la", "del", ", apartado 2, de la"… */
+const MAX_DISTANCIA_NORMA = 40;
+
+/** Distingue mayúsculas: "SAN" es la Audiencia Nacional, "San Sebastián" no */
+const SENTENCIAS = /\b(?:STS|STSJ|STC|SAN|SAP|SJCA)\b[^;\n]{0,100}|\b[Ss]entencia (?:del|de la) (?:Tribunal Supremo|Tribunal Constitucional|Audiencia Nacional|TS|TC|TSJ|Tribunal Superior de Justicia)\b[^;\n]{0,100}/g;
+
+/** Norma citada justo después del número y posición donde termina su mención */
+function normaTras(resto: string): { norma: Norma; fin: number } | null {
+  const ventana = resto.slice(0, MAX_DISTANCIA_NORMA + 60).split(/[;\n]|\bart[ií]culos?\b|\barts?\./i)[0];
+  let mejor: { norma: Norma; indice: number; fin: number } | null = null;
+  for (const { norma, patrones } of NORMAS) {
+    for (const re of patrones) {
+      const m = ventana.match(re);
+      if (m && m.index! <= MAX_DISTANCIA_NORMA && (!mejor || m.index! < mejor.indice)) {
+        mejor = { norma, indice: m.index!, fin: m.index! + m[0].length };
+      }
+    }
+  }
+  return mejor;
+}
+
+function verificar(norma: Norma, numero: string, texto: string): Cita {
+  const [articulo, apartado] = numero.replace(/\s+/g, " ").split(".");
+  const base = { texto, norma, articulo, apartado };
+  if (norma.derogada) return { ...base, estado: "derogada" };
+  const enCorpus = CORPUS.articulos.find((a) => a.norma === norma.id && a.articulo === articulo);
+  if (enCorpus) return { ...base, estado: "verificada", corpus: enCorpus };
+  if (norma.articulos && parseInt(articulo, 10) > norma.articulos) return { ...base, estado: "inexistente" };
+  return { ...base, estado: "sin_texto" };
+}
+
+/** Cada artículo de cada norma aparece una vez, aunque el escrito lo cite varias */
+export function revisarCitas(escrito: string): RevisionCitas {
+  const citas = new Map<string, Cita>();
+
+  for (const m of Array.from(escrito.matchAll(ARTICULOS))) {
+    const tras = normaTras(escrito.slice(m.index! + m[0].length));
+    // Sin norma reconocible ("art. 3 de la Ordenanza") no hay nada con qué contrastar
+    if (!tras) continue;
+    const { norma, fin } = tras;
+    const texto = escrito.slice(m.index!, m.index! + m[0].length + fin).trim();
+    for (const numero of numerosCitados(m[1])) {
+      const cita = verificar(norma, numero, texto);
+      const clave = `${norma.id}:${cita.articulo}${cita.apartado ? `.${cita.apartado}` : ""}`;
+      if (!citas.has(clave)) citas.set(clave, cita);
+    }
+  }
+
+  for (const m of Array.from(escrito.matchAll(SENTENCIAS))) {
+    // La referencia acaba en el punto que cierra la frase ("rec. 123/2018" no cuenta) o en la siguiente cita
+    const texto = m[0].split(/\.\s+(?=[A-ZÁÉÍÓÚ])|,?\s+(?:y\s+)?(?:el\s+)?(?:art[ií]culos?|arts?\.)\s/i)[0].replace(/[.,]$/, "").trim();
+    if (!citas.has(texto)) citas.set(texto, { texto, estado: "no_verificable" });
+  }
+
+  const lista = Array.from(citas.values());
+  return { citas: lista, pendientes: lista.filter((c) => c.estado !== "verificada").length };
+}
+
+// ─── Presentación ─────────────────────────────────────────────────────────────
+
+export const formatCita = (c: Cita) =>
+  c.norma && c.articulo ? `art. ${c.articulo}${c.apartado ? `.${c.apartado}` : ""} ${c.norma.abreviatura}` : c.texto;
+
+export const ESTADOS_CITA: Record<EstadoCita, { label: string; detalle: (c: Cita) => string }> = {
+  verificada: { label: "Verificada", detalle: () => "Texto del corpus local" },
+  sin_texto: {
+    label: "Sin comprobar",
+    detalle: (c) => `El ${formatCita(c)} no está en el corpus local: revisa su contenido en el BOE.`,
+  },
+  inexistente: {
+    label: "No existe",
+    detalle: (c) => `${c.norma?.abreviatura} tiene ${c.norma?.articulos} artículos: el ${formatCita(c)} no existe. Corrige o elimina la cita.`,
+  },
+  derogada: {
+    label: "Norma derogada",
+    detalle: (c) => `${c.norma?.abreviatura} está derogada; se aplica ${c.norma?.derogada}. Sustituye la cita.`,
+  },
+  no_verificable: {
+    label: "Jurisprudencia",
+    detalle: () => "No se puede verificar sin conexión: comprueba la referencia en CENDOJ antes de presentarla.",
+  },
+};
@@ -0,0 +1,231 @@
+/**
+ * lib/contracts.ts
+ *
+ * Tipos compartidos entre las rutas de la API y la UI.
+ */
+
+import type { EstadoCaso } from "./casos";
+import type { RevisionCitas } from "./citas";
+import type { FormatoDocumento } from "./documento";
+import type { MultaData } from "./multa";
+import type { DatosRecurrente } from "./perfiles";
+import type { ConfigPlazo, ResultadoPlazo } from "./plazos";
+import type { DeteccionTramite, TipoEscrito } from "./tramite";
+
+export type AgentStatus = "pending" | "running" | "done" | "error" | "skipped";
+
+export interface AgentResult {
+  agentId: string;
+  agentName: string;
+  label: string;
+  color: string;
+  status: AgentStatus;
+  content: string;
+  error?: string;
+  latencyMs?: number;
+  /** Citas legales del borrador contrastadas con el corpus local */
+  citas?: RevisionCitas;
+}
+
+// ─── Ficheros ─────────────────────────────────────────────────────────────────
+
+export interface UploadedFilePayload {
+  name: string;
+  type: string;
+  base64: string;
+}
+
+export interface SupportFilePayload {
+  name: string;
+  type?: string;
+  context?: string;
+  base64?: string;
+}
+
+/** Fichero de apoyo ya leído, tal y como entra en el prompt (DOCUMENTO Nº index) */
+export interface SupportDocument {
+  index: number;
+  name: string;
+  context: string;
+  kind: "pdf" | "office" | "image" | "text" | "other";
+  content: string;
+  truncated: boolean;
+  error?: string;
+}
+
+/**
+ * Documentación de apoyo para el índice y el anexo de /api/generate-doc,
+ * con el número que recibió el prompt. Las imágenes traen el fichero.
+ */
+export interface AnnexDocument extends Pick<SupportDocument, "index" | "name" | "context" | "kind"> {
+  type?: string;
+  base64?: string;
+}
+
+export interface ApiErrorResponse {
+  error: string;
+}
+
+// ─── POST /api/parse ──────────────────────────────────────────────────────────
+
+export interface ParseRequest {
+  multaFile: UploadedFilePayload;
+}
+
+export interface ParseResponse {
+  multaData: MultaData;
+  /** Problemas de validación del JSON extraído que conviene revisar */
+  warnings: string[];
+  /** Fase del procedimiento detectada y escrito que le corresponde */
+  tramite: DeteccionTramite;
+  instructions: string;
+  latencyMs: number;
+}
+
+// ─── POST /api/draft ──────────────────────────────────────────────────────────
+
+export interface DraftRequest {
+  agentId: string;
+  multaData: MultaData;
+  supportFiles?: SupportFilePayload[];
+  /** Documentos ya extraídos por /api/analyze: evita volver a leerlos en cada reintento */
+  supportDocuments?: SupportDocument[];
+  additionalContext?: string;
+  /** Si no se indica, se deduce de multaData */
+  escrito?: TipoEscrito;
+  /** Ids de la biblioteca de argumentos que el escrito debe desarrollar */
+  argumentos?: string[];
+}
+
+export type DraftResponse = AgentResult;
+
+// ─── POST /api/merge ──────────────────────────────────────────────────────────
+
+export interface MergeModel {
+  provider: string;
+  model: string;
+}
+
+export interface MergeRequest {
+  drafts: { agentName: string; content: string }[];
+  /** Si se indica, fusiona solo con este modelo en vez de la cadena; debe ser uno de MASTER_MODELS */
+  model?: MergeModel;
+  /** Por defecto, recurso de reposición */
+  escrito?: TipoEscrito;
+}
+
+export interface MergeResponse {
+  masterRecurso: string;
+  masterError?: string;
+  masterCitas?: RevisionCitas;
+  latencyMs: number;
+}
+
+// ─── POST /api/analyze (pipeline completo) ────────────────────────────────────
+
+export interface AnalyzeRequest {
+  multaFile?: UploadedFilePayload;
+  /** Datos ya extraídos (y quizá corregidos): si vienen, se omite el parseo */
+  multaData?: MultaData;
+  supportFiles?: SupportFilePayload[];
+  additionalContext?: string;
+  /** Procedimiento y calendario para calcular el último día en las instrucciones */
+  plazo?: ConfigPlazo;
+  /** Tipo de escrito elegido por el usuario; si no viene, se deduce de multaData */
+  escrito?: TipoEscrito;
+  /** Ids de la biblioteca de argumentos que el escrito debe desarrollar */
+  argumentos?: string[];
+}
+
+export interface AnalyzeResult {
+  agentResults: AgentResult[];
+  masterRecurso: string;
+  masterError?: string;
+  masterCitas?: RevisionCitas;
+  instructions: string;
+  multaData: MultaData;
+  parseWarnings: string[];
+  supportDocuments: SupportDocument[];
+  escrito: TipoEscrito;
+}
+
+// ─── POST /api/generate-doc ───────────────────────────────────────────────────
+
+export interface GenerateDocRequest {
+  content: string;
+  instructions: string;
+  plazo?: ResultadoPlazo | null;
+  escrito?: TipoEscrito;
+  /** Perfil elegido por el usuario; sin él se usan los datos del denunciado */
+  recurrente?: DatosRecurrente | null;
+  multaData?: MultaData | null;
+  /** Por defecto, .docx; "pdf" devuelve PDF/A para las sedes electrónicas */
+  format?: FormatoDocumento;
+  /** Id de data/plantillas.json; sin él se elige según el organismo y el escrito */
+  plantilla?: string;
+  /** Índice de documentos e imágenes del anexo, tras el escrito */
+  supportDocuments?: AnnexDocument[];
+}
+
+// ─── POST /api/generate-bundle ────────────────────────────────────────────────
+
+/**
+ * Paquete para presentar: lo mismo que /api/generate-doc más la multa
+ * original. Aquí supportDocuments lleva el fichero de todas las pruebas,
+ * no solo de las imágenes.
+ */
+export interface GenerateBundleRequest extends Omit<GenerateDocRequest, "format"> {
+  /** Formatos del escrito y de la guía; por defecto, los dos */
+  formats?: FormatoDocumento[];
+  multaFile?: SupportFilePayload | null;
+}
+
+// ─── /api/cases (historial compartido en el servidor) ─────────────────────────
+
+/** Un caso guardado en el servidor: el resultado de /api/analyze más su seguimiento */
+export interface CaseRecord extends AnalyzeResult {
+  id: string;
+  creado: string;
+  actualizado: string;
+  estado: EstadoCaso;
+  fechaPresentacion?: string;
+  /** Si no se indica al crearlo, el plazo que corresponde al tipo de escrito */
+  plazoConfig: ConfigPlazo;
+  argumentos?: string[];
+  additionalContext?: string;
+  /** Plantilla del documento elegida a mano; sin ella, la automática */
+  plantilla?: string;
+}
+
+/** Lo que lista GET /api/cases: sin borradores, textos ni documentos de apoyo */
+export type CaseSummary = Pick<
+  CaseRecord,
+  "id" | "creado" | "actualizado" | "estado" | "fechaPresentacion" | "multaData" | "escrito" | "plazoConfig"
+>;
+
+export interface ListCasesResponse {
+  casos: CaseSummary[];
+}
+
+/** POST /api/cases: el id es opcional (para compartir un caso local con el mismo id) */
+export type CreateCaseRequest = AnalyzeResult &
+  Partial<Pick<CaseRecord, "id" | "estado" | "fechaPresentacion" | "plazoConfig" | "argumentos" | "additionalContext" | "plantilla">>;
+
+/** PATCH /api/cases/[id]: solo los campos que cambian */
+export type UpdateCaseRequest = Partial<Omit<CaseRecord, "id" | "creado" | "actualizado">>;
+
+// ─── Eventos SSE de /api/analyze ──────────────────────────────────────────────
+
+export type PhaseStatus = "started" | "done" | "error";
+
+export type AnalyzeEvent =
+  | {
+      event: "parse";
+      data: { status: PhaseStatus; multaData?: MultaData; warnings?: string[]; error?: string; latencyMs?: number };
+    }
+  | { event: "agent"; data: Omit<AgentResult, "content"> & { content?: string } }
+  | { event: "agent-delta"; data: { agentId: string; delta: string } }
+  | { event: "merge"; data: { status: PhaseStatus; content?: string; error?: string; latencyMs?: number } }
+  | { event: "merge-delta"; data: { delta: string } }
+  | { event: "result"; data: AnalyzeResult }
+  | { event: "error"; data: { error: string } };
@@ -0,0 +1,346 @@
+/**
+ * lib/documento.ts
+ *
+ * Estructura del escrito para los documentos descargables. Los modelos
+ * devuelven Markdown a medias (**negrita**, listas, # títulos) mezclado con
+ * la forma forense (PRIMERO.-, HECHOS, SUPLICA): aquí se convierte en
+ * bloques con estilo para que el .docx y el PDF se maqueten igual, y la
+ * petición de descarga se convierte en el documento que maquetan
+ * lib/docx.ts y lib/pdf.ts. Sin dependencias de servidor.
+ */
+
+import type { AnnexDocument, GenerateDocRequest } from "./contracts";
+import { emptyMultaData, formatDateEs, validateMultaData } from "./multa";
+import { datosRecurrente, rellenarRecurrente, validarDocumento } from "./perfiles";
+import { MaquetaDocumento, componerMaqueta, elegirPlantilla, plantillaPorId } from "./plantillas";
+import type { ResultadoPlazo } from "./plazos";
+import { ESCRITOS } from "./tramite";
+
+// ─── Texto con formato ────────────────────────────────────────────────────────
+
+export interface Tramo {
+  texto: string;
+  negrita?: boolean;
+  cursiva?: boolean;
+}
+
+/**
+ * ***negrita y cursiva***, **negrita**, __negrita__, *cursiva*, _cursiva_ y
+ * `código` (como texto normal). Los guiones bajos solo cuentan pegados a
+ * texto: "NOMBRE: ________" es un hueco para rellenar, no una marca.
+ */
+const MARCAS = /\*\*\*(?=\S)(.+?)\*\*\*|\*\*(?=\S)(.+?)\*\*|(?<![\w_])__(?=[^_\s])([^_]+?)__(?![\w_])|\*(?=[^\s*])([^*]+?)\*|(?<![\w_])_(?=[^_\s])([^_]+?)_(?![\w_])|`([^`]+)`/g;
+
+export function tramosMarkdown(linea: string): Tramo[] {
+  const tramos: Tramo[] = [];
+  let desde = 0;
+  for (const m of Array.from(linea.matchAll(MARCAS))) {
+    if (m.index! > desde) tramos.push({ texto: linea.slice(desde, m.index) });
+    const [, ambas, n1, n2, c1, c2, codigo] = m;
+    if (ambas) tramos.push({ texto: ambas, negrita: true, cursiva: true });
+    else if (n1 || n2) tramos.push({ texto: n1 || n2, negrita: true });
+    else if (c1 || c2) tramos.push({ texto: c1 || c2, cursiva: true });
+    else tramos.push({ texto: codigo });
+    desde = m.index! + m[0].length;
+  }
+  if (desde < linea.length) tramos.push({ texto: linea.slice(desde) });
+  return tramos;
+}
+
+const textoPlano = (tramos: Tramo[]) => tramos.map((t) => t.texto).join("");
+
+/** Quita los n primeros caracteres (ya usados como marcador) conservando el formato del resto */
+function cortarTramos(tramos: Tramo[], n: number): Tramo[] {
+  const resto: Tramo[] = [];
+  for (const t of tramos) {
+    if (n >= t.texto.length) {
+      n -= t.texto.length;
+      continue;
+    }
+    resto.push({ ...t, texto: t.texto.slice(n) });
+    n = 0;
+  }
+  if (resto.length) resto[0] = { ...resto[0], texto: resto[0].texto.trimStart() };
+  return resto.filter((t) => t.texto);
+}
+
+// ─── Bloques ──────────────────────────────────────────────────────────────────
+
+export type TipoBloque = "espacio" | "titulo" | "encabezado" | "apartado" | "parrafo" | "lista" | "cita";
+
+export interface Bloque {
+  tipo: TipoBloque;
+  /** Sin marcas Markdown; en apartados incluye el marcador */
+  texto: string;
+  tramos: Tramo[];
+  /** Encabezados: 1 sección (HECHOS), 2 ordinal o romano, 3 subtítulo; listas: sangría desde 0 */
+  nivel: number;
+  /** Apartados: "PRIMERO.-", "SOLICITA:"; listas numeradas: "1.", "a)" según su posición */
+  marcador?: string;
+  /** Listas: cada lista numerada reinicia la cuenta */
+  lista?: number;
+  ordenada?: boolean;
+}
+
+/** Las primeras líneas en mayúsculas, antes de cualquier otro bloque, son el título que ya trae el escrito */
+const LINEAS_TITULO = 5;
+
+const ORDINALES =
+  "PRIMER[OA]|SEGUND[OA]|TERCER[OA]|CUART[OA]|QUINT[OA]|SEXT[OA]|S[EÉ]PTIM[OA]|OCTAV[OA]|NOVEN[OA]|D[EÉ]CIM[OA]|UND[EÉ]CIM[OA]|DUOD[EÉ]CIM[OA]";
+
+/** "PRIMERO.-", "SEGUNDA ALEGACIÓN:", "Tercero —"; sin separador solo si es toda la línea */
+const ORDINAL = new RegExp(
+  `^(?:(?:${ORDINALES})(?:\\s+(?:ALEGACI[OÓ]N|MOTIVO|FUNDAMENTO))?)(?:\\s*(?:\\.-|\\.–|\\.|:|-|–|—)|$)`,
+  "i"
+);
+
+const ROMANO = /^(?=[IVX])X{0,3}(?:IX|IV|V?I{0,3})\s*(?:\.-|\.|\)|-)\s/;
+
+const SECCIONES =
+  /^(HECHOS|ANTECEDENTES(?: DE HECHO)?|FUNDAMENTOS(?: DE DERECHO| JUR[IÍ]DICOS)?|ALEGACIONES|EXPONE|S[UÚ]PLICA|SOLICITA|PETICI[OÓ]N|PROPOSICI[OÓ]N DE PRUEBA|OTROS[IÍ](?: DIGO)?|DOCUMENTOS(?: QUE SE ACOMPAÑAN| ADJUNTOS)?|DATOS DE(?:L| LA) (?:RECURRENTE|INTERESAD[OA]|DENUNCIAD[OA]))\b/;
+
+/** Un encabezado no acaba en punto ni pasa de una línea corta */
+const esCorta = (s: string) => s.length <= 90 && !/[.;,]$/.test(s);
+
+const esMayusculas = (s: string) => /[A-ZÁÉÍÓÚÜÑ]/.test(s) && s === s.toUpperCase();
+
+const LETRAS = "abcdefghijklmnopqrstuvwxyz";
+
+export function bloquesEscrito(content: string): Bloque[] {
+  const bloques: Bloque[] = [];
+  let listas = 0;
+  /** Elementos ya vistos y clase ("•", "1.", "a)") en cada nivel de la lista abierta */
+  let cuenta: number[] = [];
+  let clases: string[] = [];
+
+  const lineas = content.split("\n");
+  lineas.forEach((raw, i) => {
+    const linea = raw.trimEnd();
+    const texto = linea.trim();
+    const anterior = [...bloques].reverse().find((b) => b.tipo !== "espacio");
+    const bloque = (tipo: TipoBloque, tramos: Tramo[], extra: Partial<Bloque> = {}) =>
+      bloques.push({ tipo, tramos, texto: textoPlano(tramos), nivel: 1, ...extra });
+
+    if (!texto || /^(?:-{3,}|\*{3,})$/.test(texto)) {
+      bloques.push({ tipo: "espacio", texto: "", tramos: [], nivel: 0 });
+      return;
+    }
+
+    // Listas: "- ", "* ", "• ", "1. ", "1) ", "a) "
+    const lista = linea.match(/^(\s*)(?:([-*+•])|(\d{1,2}[.)]|[a-z]\)))\s+(.+)$/);
+    if (lista && !ORDINAL.test(texto)) {
+      const [, sangria, , numero, resto] = lista;
+      const nivel = Math.min(Math.floor(sangria.replace(/\t/g, "  ").length / 2), 2);
+      const ordenada = Boolean(numero);
+      const clase = !numero ? "•" : /[a-z]/.test(numero) ? "a)" : "1.";
+      // Una lista nueva, o una de otra clase justo detrás, empieza a contar de nuevo
+      if (anterior?.tipo !== "lista" || (nivel === 0 && clases[0] !== clase)) {
+        listas++;
+        cuenta = [];
+        clases = [];
+      }
+      if (clases[nivel] !== clase) cuenta[nivel] = 0;
+      cuenta = cuenta.slice(0, nivel + 1);
+      clases = clases.slice(0, nivel).concat(clase);
+      cuenta[nivel] = (cuenta[nivel] || 0) + 1;
+      const marcador = clase === "a)" ? `${LETRAS[(cuenta[nivel] - 1) % LETRAS.length]})` : clase === "1." ? `${cuenta[nivel]}.` : clase;
+      bloque("lista", tramosMarkdown(resto), { nivel, lista: listas, ordenada, marcador });
+      return;
+    }
+
+    // Cita literal de una norma o resolución: "> …" o la línea entera entre comillas
+    const cita = texto.match(/^>\s?(.*)$/);
+    if (cita || (texto.length > 40 && /^[«"“].+[»"”][.,]?$/.test(texto))) {
+      bloque("cita", tramosMarkdown(cita ? cita[1] : texto));
+      return;
+    }
+
+    const almohadillas = texto.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+    const tramos = tramosMarkdown(almohadillas ? almohadillas[2] : texto);
+    const bruto = textoPlano(tramos);
+    const plano = bruto.trim();
+
+    const enCabecera = i < LINEAS_TITULO && bloques.every((b) => b.tipo === "titulo" || b.tipo === "espacio");
+    if (enCabecera && esMayusculas(plano) && !SECCIONES.test(plano) && !ORDINAL.test(plano)) {
+      bloque("titulo", tramos);
+      return;
+    }
+    if (almohadillas) {
+      // El nivel lo marca el contenido: "## HECHOS" es sección aunque el modelo use dos almohadillas
+      const nivel = SECCIONES.test(plano) ? 1 : ORDINAL.test(plano) ? 2 : Math.min(almohadillas[1].length, 3);
+      bloque("encabezado", tramos, { nivel });
+      return;
+    }
+
+    // Ordinales y secciones con texto detrás se quedan como párrafo con el marcador en negrita
+    const ordinal = plano.match(ORDINAL);
+    const seccion = esMayusculas(plano.split(/[:.]/)[0]) ? plano.match(SECCIONES) : null;
+    const inicio = ordinal || seccion;
+    if (inicio) {
+      const resto = plano.slice(inicio[0].length).replace(/^\s*[:.\-–—]*\s*/, "");
+      if (!resto || (ordinal && esCorta(resto)) || (seccion && esCorta(plano))) {
+        bloque("encabezado", tramos, { nivel: ordinal ? 2 : 1 });
+      } else {
+        const corte = plano.length - resto.length;
+        const blancos = bruto.length - bruto.trimStart().length;
+        bloque("apartado", cortarTramos(tramos, blancos + corte), { marcador: plano.slice(0, corte).trim(), texto: plano });
+      }
+      return;
+    }
+    if (ROMANO.test(plano) && esCorta(plano)) {
+      bloque("encabezado", tramos, { nivel: 2 });
+      return;
+    }
+    // "**Sobre la falta de notificación**": subtítulo que el modelo marca solo con negrita
+    if (tramos.length === 1 && tramos[0].negrita && esCorta(plano)) {
+      bloque("encabezado", tramos, { nivel: 3 });
+      return;
+    }
+    bloque("parrafo", tramos);
+  });
+  return bloques;
+}
+
+// ─── Textos comunes ───────────────────────────────────────────────────────────
+
+export const TITULO_GENERICO = "RECURSO ADMINISTRATIVO CONTRA SANCIÓN";
+
+export const TITULO_GUIA = "GUÍA DE PRESENTACIÓN DEL RECURSO";
+
+export const AVISO_LEGAL =
+  "Documento generado por RecursApp — Herramienta de apoyo. No constituye asesoramiento jurídico profesional.";
+
+/** Segunda línea del recuadro del plazo */
+export const detallePlazo = (plazo: ResultadoPlazo) =>
+  `${plazo.label} · ${plazo.descripcion} desde la notificación (${formatDateEs(plazo.fechaNotificacion)}) · ${plazo.norma}${
+    plazo.prorrogado ? " · prorrogado al siguiente día hábil" : ""
+  }`;
+
+// ─── Documentación aportada ───────────────────────────────────────────────────
+
+export const TITULO_INDICE = "ÍNDICE DE DOCUMENTOS";
+
+export const TITULO_ANEXO = "ANEXO DOCUMENTAL";
+
+/** La misma numeración que recibió el prompt de redacción (SupportDocument.index) */
+export const etiquetaDocumento = (index: number) => `Documento nº ${index}`;
+
+const CLASES_DOCUMENTO: Record<AnnexDocument["kind"], string> = {
+  pdf: "PDF",
+  office: "documento de texto",
+  image: "fotografía",
+  text: "texto",
+  other: "fichero",
+};
+
+/** "Documento nº 2. ticket.jpg: Ticket de la ORA pagado (fotografía, en el anexo)" */
+export function entradaIndice(doc: AnnexDocument, enAnexo: boolean): string {
+  const descripcion = doc.context.trim() ? `: ${doc.context.trim()}` : "";
+  return `${etiquetaDocumento(doc.index)}. ${doc.name}${descripcion} (${CLASES_DOCUMENTO[doc.kind]}, ${
+    enAnexo ? "en el anexo" : "se aporta por separado"
+  })`;
+}
+
+/** Pie de la imagen en el anexo */
+export const pieImagen = (doc: AnnexDocument) =>
+  `${etiquetaDocumento(doc.index)}. ${doc.context.trim() || doc.name}`;
+
+/** Números de "Documento nº 3", "documentos nº 1 y 2", "Doc. 4" que cita el escrito */
+export function documentosCitados(escrito: string): number[] {
+  const citados = new Set<number>();
+  for (const m of Array.from(escrito.matchAll(/\bdoc(?:umentos?|s?\.)\s*(?:n[º°o]\.?|n[uú]m(?:ero)?\.?)?\s*(\d+(?:\s*(?:,|y|e)\s*\d+)*)/gi))) {
+    for (const n of m[1].split(/\s*(?:,|y|e)\s*/)) citados.add(Number(n));
+  }
+  return Array.from(citados).sort((a, b) => a - b);
+}
+
+// ─── Instrucciones ────────────────────────────────────────────────────────────
+
+export type TipoLineaGuia = "aviso" | "paso" | "texto";
+
+/** "⚠️ …" se resalta en rojo y "1. …" en negrita, en los dos formatos */
+export const tipoLineaGuia = (line: string): TipoLineaGuia =>
+  line.startsWith("⚠️") ? "aviso" : /^\d+\./.test(line.trim()) ? "paso" : "texto";
+
+export const FORMATOS_DOCUMENTO = {
+  docx: {
+    label: "Word (.docx)",
+    mime: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  },
+  pdf: {
+    label: "PDF/A",
+    mime: "application/pdf",
+  },
+} as const;
+
+export type FormatoDocumento = keyof typeof FORMATOS_DOCUMENTO;
+
+// ─── Documento completo ───────────────────────────────────────────────────────
+
+/** Lo que maquetan lib/docx.ts y lib/pdf.ts */
+export interface DocumentoRecurso {
+  maqueta: MaquetaDocumento;
+  /** null si la plantilla no lleva recuadro del plazo */
+  plazo?: ResultadoPlazo | null;
+  /** Vacío en el documento que solo lleva la guía */
+  escrito: string;
+  /** Sin guía de presentación si la plantilla no la lleva */
+  instructions?: string;
+  /** Documentación aportada: índice tras el escrito y anexo con las imágenes */
+  documentos?: AnnexDocument[];
+}
+
+const esTexto = (v: unknown) => v === undefined || v === null || typeof v === "string";
+
+const esObjeto = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const CAMPOS_RECURRENTE = ["nombre", "dni", "domicilio", "telefono", "email"] as const;
+
+/**
+ * Elige la plantilla, rellena el bloque del recurrente y compone la maqueta.
+ * Devuelve el mensaje de error si la petición está mal formada o si la
+ * plantilla o el DNI/NIE no son válidos.
+ */
+export function prepararDocumento(p: GenerateDocRequest): { documento: DocumentoRecurso } | { error: string } {
+  if (p.escrito !== undefined && !Object.keys(ESCRITOS).includes(p.escrito)) {
+    return { error: `Tipo de escrito desconocido: ${p.escrito}` };
+  }
+  if (!esTexto(p.content) || !esTexto(p.instructions)) {
+    return { error: "content e instructions deben ser texto" };
+  }
+  if (p.multaData && !esObjeto(p.multaData)) return { error: "multaData debe ser un objeto" };
+  if (p.supportDocuments && !Array.isArray(p.supportDocuments)) return { error: "supportDocuments debe ser una lista" };
+  if (p.plazo && !esObjeto(p.plazo)) return { error: "plazo debe ser un objeto" };
+  if (!esTexto(p.plantilla)) return { error: "plantilla debe ser el id de una plantilla" };
+  if (p.recurrente && (!esObjeto(p.recurrente) || CAMPOS_RECURRENTE.some((k) => !esTexto(p.recurrente![k])))) {
+    return { error: "recurrente debe ser { nombre, dni, domicilio, telefono, email } con texto" };
+  }
+
+  // validateMultaData convierte cada campo a su tipo: un número en "expediente" no rompe la maqueta
+  const multa = p.multaData ? validateMultaData(p.multaData).data : emptyMultaData();
+  const plantilla = p.plantilla ? plantillaPorId(p.plantilla) : elegirPlantilla(multa, p.escrito);
+  if (!plantilla) return { error: `Plantilla desconocida: ${p.plantilla}` };
+  const recurrente = p.recurrente
+    ? { nombre: p.recurrente.nombre || "", dni: p.recurrente.dni || "", domicilio: p.recurrente.domicilio || "", telefono: p.recurrente.telefono || "", email: p.recurrente.email || "" }
+    : null;
+  if (recurrente?.dni && !validarDocumento(recurrente.dni).valido) {
+    return { error: `DNI/NIE del perfil no válido: ${validarDocumento(recurrente.dni).error}` };
+  }
+
+  const today = new Date().toLocaleDateString("es-ES", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+  return {
+    documento: {
+      maqueta: componerMaqueta(plantilla, multa, p.escrito ? ESCRITOS[p.escrito].titulo : TITULO_GENERICO, today),
+      plazo: plantilla.recuadroPlazo ? p.plazo : null,
+      escrito: rellenarRecurrente(p.content || "", datosRecurrente(recurrente, multa)),
+      instructions: plantilla.guia ? p.instructions || "" : undefined,
+      documentos: (p.supportDocuments || [])
+        .filter((d) => esObjeto(d) && Number.isInteger(d.index) && typeof d.name === "string" && esTexto(d.base64))
+        .map((d) => ({ ...d, context: d.context || "" })),
+    },
+  };
+}
@@ -0,0 +1,402 @@
+/**
+ * lib/docx.ts
+ *
+ * Documento Word de /api/generate-doc y /api/generate-bundle (solo
+ * servidor): estilos con nivel de esquema, recuadro del plazo, escrito,
+ * índice y anexo de la documentación y guía de presentación, según la
+ * plantilla. La versión PDF/A está en lib/pdf.ts.
+ */
+
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  HeadingLevel,
+  AlignmentType,
+  BorderStyle,
+  Table,
+  ShadingType,
+  TabStopType,
+  Header,
+  Footer,
+  PageNumber,
+  ImageRun,
+  IBaseParagraphStyleOptions,
+  IParagraphStyleOptions,
+} from "docx";
+import { encajar, imagenAnexo } from "./anexo";
+import type { AnnexDocument } from "./contracts";
+import {
+  AVISO_LEGAL,
+  DocumentoRecurso,
+  TITULO_ANEXO,
+  TITULO_GUIA,
+  TITULO_INDICE,
+  Tramo,
+  bloquesEscrito,
+  detallePlazo,
+  entradaIndice,
+  pieImagen,
+  tipoLineaGuia,
+} from "./documento";
+import type { MaquetaDocumento } from "./plantillas";
+import { ResultadoPlazo, formatFechaLarga } from "./plazos";
+
+// ─── Estilos ──────────────────────────────────────────────────────────────────
+
+/**
+ * Los encabezados sustituyen a los estilos Heading de Word con su nivel de
+ * esquema, así el panel de navegación muestra HECHOS, FUNDAMENTOS, PRIMERO…
+ */
+const HEADING_STYLES: Record<"title" | "heading1" | "heading2" | "heading3", IBaseParagraphStyleOptions> = {
+  title: {
+    run: { bold: true, size: 32, color: "1a1a1a" },
+    paragraph: { alignment: AlignmentType.CENTER, spacing: { before: 200, after: 400 } },
+  },
+  heading1: {
+    run: { bold: true, size: 26, color: "1a1a1a" },
+    paragraph: { spacing: { before: 400, after: 200 }, keepNext: true, outlineLevel: 0 },
+  },
+  heading2: {
+    run: { bold: true, size: 24, color: "1a1a1a" },
+    paragraph: { spacing: { before: 300, after: 150 }, keepNext: true, outlineLevel: 1 },
+  },
+  heading3: {
+    run: { bold: true, italics: true, size: 24, color: "1a1a1a" },
+    paragraph: { spacing: { before: 240, after: 120 }, keepNext: true, outlineLevel: 2 },
+  },
+};
+
+const PARAGRAPH_STYLES: IParagraphStyleOptions[] = [
+  {
+    id: "Cita",
+    name: "Cita literal",
+    basedOn: "Normal",
+    next: "Normal",
+    run: { italics: true, size: 22, color: "444444" },
+    paragraph: { alignment: AlignmentType.JUSTIFIED, indent: { left: 720, right: 360 }, spacing: { before: 120, after: 160, line: 300 } },
+  },
+  {
+    id: "Lista",
+    name: "Lista del escrito",
+    basedOn: "Normal",
+    next: "Normal",
+    paragraph: { alignment: AlignmentType.JUSTIFIED, spacing: { after: 80, line: 320 } },
+  },
+];
+
+const HEADINGS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3];
+
+const runs = (tramos: Tramo[], size?: number) =>
+  tramos.map((t) => new TextRun({ text: t.texto, bold: t.negrita, italics: t.cursiva, size }));
+
+function parseContentToDocxElements(content: string): (Paragraph | Table)[] {
+  return bloquesEscrito(content).map((b) => {
+    switch (b.tipo) {
+      case "espacio":
+        return new Paragraph({ children: [new TextRun("")], spacing: { after: 120 } });
+      case "titulo":
+        return new Paragraph({ children: runs(b.tramos), heading: HeadingLevel.TITLE });
+      case "encabezado":
+        return new Paragraph({ children: runs(b.tramos), heading: HEADINGS[b.nivel - 1] });
+      case "cita":
+        return new Paragraph({ children: runs(b.tramos), style: "Cita" });
+      case "lista":
+        // Marcador literal con sangría francesa: la numeración coincide con la del PDF
+        return new Paragraph({
+          children: [new TextRun({ text: `${b.marcador}\t`, size: 24 }), ...runs(b.tramos, 24)],
+          style: "Lista",
+          indent: { left: 720 + b.nivel * 360, hanging: 360 },
+          tabStops: [{ type: TabStopType.LEFT, position: 720 + b.nivel * 360 }],
+        });
+      case "apartado":
+        return new Paragraph({
+          children: [new TextRun({ text: `${b.marcador} `, bold: true, size: 24 }), ...runs(b.tramos, 24)],
+          alignment: AlignmentType.JUSTIFIED,
+          spacing: { after: 120, line: 360 },
+          indent: { firstLine: 720 },
+        });
+      case "parrafo":
+        return new Paragraph({
+          children: runs(b.tramos, 24),
+          alignment: AlignmentType.JUSTIFIED,
+          spacing: { after: 120, line: 360 },
+          indent: { firstLine: 720 },
+        });
+    }
+  });
+}
+
+function plazoBox(plazo: ResultadoPlazo): Paragraph[] {
+  const border = { color: "c9a84c", space: 6, style: BorderStyle.SINGLE, size: 12 };
+  const shading = { type: ShadingType.CLEAR, color: "auto", fill: "faf5e6" };
+  return [
+    new Paragraph({
+      children: [
+        new TextRun({ text: "ÚLTIMO DÍA PARA PRESENTAR: ", bold: true, size: 24, color: "9a7530" }),
+        new TextRun({ text: formatFechaLarga(plazo.ultimoDia).toUpperCase(), bold: true, size: 24 }),
+      ],
+      alignment: AlignmentType.CENTER,
+      border: { top: border, left: border, right: border },
+      shading,
+    }),
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: detallePlazo(plazo),
+          size: 18,
+          color: "555555",
+        }),
+      ],
+      alignment: AlignmentType.CENTER,
+      border: { bottom: border, left: border, right: border },
+      shading,
+      spacing: { after: 600 },
+    }),
+  ];
+}
+
+/** En píxeles: el ancho útil de la página (A4 menos márgenes) y media página de alto */
+const CAJA_IMAGEN = { ancho: 560, alto: 400 };
+
+/** Índice de la documentación aportada y anexo con las imágenes, con la numeración del prompt */
+function anexoDocumental(documentos: AnnexDocument[]): Paragraph[] {
+  const imagenes = documentos.map(imagenAnexo);
+  const indice = documentos.length
+    ? [
+        new Paragraph({ children: [new TextRun(TITULO_INDICE)], heading: HeadingLevel.HEADING_1 }),
+        ...documentos.map(
+          (doc, i) =>
+            new Paragraph({
+              children: [new TextRun({ text: entradaIndice(doc, Boolean(imagenes[i])), size: 22 })],
+              spacing: { after: 80 },
+            })
+        ),
+      ]
+    : [];
+  if (!imagenes.some(Boolean)) return indice;
+
+  return [
+    ...indice,
+    new Paragraph({
+      children: [new TextRun({ text: TITULO_ANEXO, bold: true, size: 28 })],
+      alignment: AlignmentType.CENTER,
+      pageBreakBefore: true,
+      spacing: { after: 400 },
+    }),
+    ...documentos.flatMap((doc, i) => {
+      const imagen = imagenes[i];
+      if (!imagen) return [];
+      return [
+        new Paragraph({
+          children: [
+            new ImageRun({
+              type: imagen.formato,
+              data: imagen.datos,
+              transformation: encajar(imagen, CAJA_IMAGEN.ancho, CAJA_IMAGEN.alto),
+              altText: { name: doc.name, title: pieImagen(doc), description: doc.context },
+            }),
+          ],
+          alignment: AlignmentType.CENTER,
+          keepNext: true,
+          spacing: { after: 120 },
+        }),
+        new Paragraph({
+          children: [new TextRun({ text: pieImagen(doc), italics: true, size: 20, color: "555555" })],
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 480 },
+        }),
+      ];
+    }),
+  ];
+}
+
+/** Guía de presentación y aviso legal, en página aparte si va detrás del escrito */
+function guiaPresentacion(instructions: string, paginaAparte: boolean): Paragraph[] {
+  return [
+    new Paragraph({
+      children: [],
+      pageBreakBefore: paginaAparte,
+      spacing: { after: 400 },
+    }),
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: TITULO_GUIA,
+          bold: true,
+          size: 28,
+          color: "9a7530",
+        }),
+      ],
+      heading: HeadingLevel.HEADING_1,
+      spacing: { after: 400 },
+    }),
+    ...instructions.split("\n").map((line: string) =>
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: line,
+            size: 22,
+            color: tipoLineaGuia(line) === "aviso" ? "cc4444" : "2a2a2a",
+            bold: tipoLineaGuia(line) === "paso",
+          }),
+        ],
+        spacing: { after: 120 },
+      })
+    ),
+    // Footer note
+    new Paragraph({
+      children: [],
+      border: {
+        top: { color: "cccccc", space: 1, style: BorderStyle.SINGLE, size: 3 },
+      },
+      spacing: { before: 600, after: 200 },
+    }),
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: AVISO_LEGAL,
+          size: 18,
+          color: "999999",
+          italics: true,
+        }),
+      ],
+      alignment: AlignmentType.CENTER,
+    }),
+  ];
+}
+
+/** Cabecera y pie de todas las páginas: textos de la plantilla y numeración */
+function cabeceraYPie(maqueta: MaquetaDocumento) {
+  const margen = { size: 18, color: "888888" };
+  return {
+    headers: maqueta.encabezado
+      ? {
+          default: new Header({
+            children: [new Paragraph({ children: [new TextRun({ text: maqueta.encabezado, ...margen })], alignment: AlignmentType.RIGHT })],
+          }),
+        }
+      : undefined,
+    footers: {
+      default: new Footer({
+        children: [
+          new Paragraph({
+            children: [
+              new TextRun({
+                children: [maqueta.pie ? `${maqueta.pie} · Página ` : "Página ", PageNumber.CURRENT, " de ", PageNumber.TOTAL_PAGES],
+                ...margen,
+              }),
+            ],
+            alignment: AlignmentType.CENTER,
+          }),
+        ],
+      }),
+    },
+  };
+}
+
+// ─── Documento ────────────────────────────────────────────────────────────────
+
+export async function generarDocx(d: DocumentoRecurso): Promise<Buffer> {
+  const doc = new Document({
+    styles: {
+      default: {
+        document: {
+          run: {
+            font: "Times New Roman",
+            size: 24,
+            color: "1a1a1a",
+          },
+          paragraph: {
+            spacing: { line: 360 },
+          },
+        },
+        ...HEADING_STYLES,
+      },
+      paragraphStyles: PARAGRAPH_STYLES,
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            margin: {
+              top: 1440,
+              right: 1440,
+              bottom: 1440,
+              left: 1800,
+            },
+          },
+        },
+        ...cabeceraYPie(d.maqueta),
+        children: [
+          // Header separator
+          ...(d.maqueta.bordeDorado
+            ? [
+                new Paragraph({
+                  children: [],
+                  border: {
+                    bottom: { color: "c9a84c", space: 1, style: BorderStyle.SINGLE, size: 6 },
+                  },
+                  spacing: { after: 400 },
+                }),
+              ]
+            : []),
+
+          // Addressee
+          ...d.maqueta.destinatario.map(
+            (linea, i) =>
+              new Paragraph({
+                children: [new TextRun({ text: linea, bold: true })],
+                spacing: { after: i === d.maqueta.destinatario.length - 1 ? 480 : 0 },
+              })
+          ),
+
+          // Title
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: d.maqueta.titulo,
+                bold: true,
+                size: 32,
+                allCaps: true,
+              }),
+            ],
+            alignment: AlignmentType.CENTER,
+            spacing: { after: d.maqueta.subtitulo ? 240 : 600 },
+          }),
+
+          ...(d.maqueta.subtitulo
+            ? [
+                new Paragraph({
+                  children: [
+                    new TextRun({
+                      text: d.maqueta.subtitulo,
+                      size: 20,
+                      color: "888888",
+                      italics: true,
+                    }),
+                  ],
+                  alignment: AlignmentType.CENTER,
+                  spacing: { after: 600 },
+                }),
+              ]
+            : []),
+
+          // Deadline
+          ...(d.plazo ? plazoBox(d.plazo) : []),
+
+          // Content paragraphs
+          ...parseContentToDocxElements(d.escrito),
+
+          // Documentación aportada
+          ...anexoDocumental(d.documentos || []),
+
+          ...(d.instructions !== undefined ? guiaPresentacion(d.instructions, Boolean(d.escrito.trim())) : []),
+        ],
+      },
+    ],
+  });
+
+  return Packer.toBuffer(doc);
+}
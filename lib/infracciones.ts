@@ -0,0 +1,175 @@
+/**
+ * lib/infracciones.ts
+ *
+ * Catálogo de infracciones (data/infracciones.json): gravedad, importe y
+ * puntos que corresponden a cada artículo. Contrasta los artículos citados
+ * en la multa con la sanción impuesta y explica la infracción en lenguaje
+ * llano. Sin dependencias de servidor.
+ */
+
+import catalogo from "../data/infracciones.json";
+import type { Gravedad, MultaData } from "./multa";
+
+export type Norma = "RGC" | "LSV" | "RGV";
+
+export interface Infraccion {
+  norma: Norma;
+  articulo: string;
+  /** Sin apartado, la entrada vale para todo el artículo */
+  apartado?: string;
+  descripcion: string;
+  /** Qué exige la norma y qué debe acreditar la Administración */
+  explicacion: string;
+  gravedades: Exclude<Gravedad, "">[];
+  /** Importes fijos posibles, en euros */
+  importes: number[];
+  /** Las leves admiten cualquier importe hasta este máximo (art. 80 LSV) */
+  importeMaximo?: number;
+  puntos: number[];
+  /** El importe exacto lo decide el Anexo IV LSV (lib/cinemometro.ts) */
+  velocidad?: boolean;
+}
+
+const CATALOGO = (catalogo as { infracciones: Infraccion[] }).infracciones;
+
+// ─── Referencias a artículos ──────────────────────────────────────────────────
+
+export interface RefArticulo {
+  norma: Norma;
+  articulo: string;
+  apartado: string;
+  opcion: string;
+}
+
+const NORMAS: [Norma, RegExp][] = [
+  ["LSV", /\blsv\b|ley (?:sobre|de) tr[aá]fico|rdl? 6\/2015|real decreto legislativo 6\/2015/],
+  ["RGV", /\brgv\b|reglamento general de veh[ií]culos|rd 2822\/1998/],
+  ["RGC", /\brgc\b|reglamento general de circulaci[oó]n|rd 1428\/2003/],
+];
+
+/** "RD 1428/2003", "RDL 6/2015", "Ley 18/2009": números de la norma, no del artículo */
+const IDENTIFICADOR_NORMA = /\b(?:rdl?|real decreto(?: legislativo)?|ley(?: org[aá]nica)?|lo)\s*\d+\/\d{2,4}\b/g;
+
+/** Artículo, apartado y opción: "48", "48.1", "48.1.5C" */
+const NUMERO_ARTICULO = /(\d{1,3})(?:[.\-/](\d{1,2}))?(?:[.\-/](\d?[a-z]{1,2}|\d{1,2}))?\b/;
+
+const CON_PREFIJO = new RegExp(`art(?:[ií]culos?|s?\\.)?\\s*${NUMERO_ARTICULO.source}`);
+
+/**
+ * Acepta "Art. 48 RGC, apartado 1, opción 5C", "48.1.5C RGC" o "artículo
+ * 18.2 del Reglamento General de Circulación". El número que sigue a
+ * "art."/"artículo" manda sobre el de la norma: "RD 1428/2003, art. 94" es
+ * el 94 y "RDL 6/2015 art. 76" el 76 LSV. Sin norma explícita se asume el
+ * RGC, que es la que citan casi todos los boletines.
+ */
+export function parsearArticulo(texto: string): RefArticulo | null {
+  const t = texto.toLowerCase();
+  const norma = NORMAS.find(([, re]) => re.test(t))?.[0] || "RGC";
+  const sinNorma = t.replace(IDENTIFICADOR_NORMA, " ");
+  const compacto = sinNorma.match(CON_PREFIJO) || sinNorma.match(NUMERO_ARTICULO);
+  if (!compacto) return null;
+  return {
+    norma,
+    articulo: compacto[1],
+    apartado: t.match(/apartado\s*(\d+)/)?.[1] || compacto[2] || "",
+    opcion: (t.match(/opci[oó]n\s*(\w+)/)?.[1] || compacto[3] || "").toUpperCase(),
+  };
+}
+
+export function buscarInfraccion(ref: RefArticulo): Infraccion | null {
+  const delArticulo = CATALOGO.filter((i) => i.norma === ref.norma && i.articulo === ref.articulo);
+  return delArticulo.find((i) => i.apartado && i.apartado === ref.apartado) || delArticulo.find((i) => !i.apartado) || null;
+}
+
+export const formatRef = (r: RefArticulo) =>
+  `art. ${r.articulo}${r.apartado ? `.${r.apartado}` : ""} ${r.norma}${r.opcion ? `, opción ${r.opcion}` : ""}`;
+
+// ─── Contraste con la sanción impuesta ────────────────────────────────────────
+
+export interface ArticuloRevisado {
+  citado: string;
+  ref: RefArticulo | null;
+  infraccion: Infraccion | null;
+}
+
+export interface Discrepancia {
+  texto: string;
+  /** El catálogo prevé una opción más leve que la impuesta: alegarlo beneficia al recurrente */
+  favorable: boolean;
+}
+
+export interface RevisionSancion {
+  articulos: ArticuloRevisado[];
+  /** Diferencias objetivas entre lo que dice el catálogo y lo que impone la multa */
+  discrepancias: Discrepancia[];
+}
+
+const ORDEN_GRAVEDAD: Record<Gravedad, number> = { "": 0, leve: 1, grave: 2, "muy grave": 3 };
+
+const lista = (xs: (string | number)[]) => xs.join(" o ");
+
+function importeValido(i: Infraccion, importe: number): boolean {
+  // El boletín puede indicar el importe con la reducción del 50 % por pronto pago
+  const ok = (n: number) => i.importes.includes(n) || (i.importeMaximo !== undefined && n > 0 && n <= i.importeMaximo);
+  return ok(importe) || ok(importe * 2);
+}
+
+export function revisarSancion(multa: MultaData): RevisionSancion {
+  const articulos = multa.articulos.map((citado): ArticuloRevisado => {
+    const ref = parsearArticulo(citado);
+    return { citado, ref, infraccion: ref ? buscarInfraccion(ref) : null };
+  });
+  const conocidas = articulos.filter((a): a is ArticuloRevisado & { ref: RefArticulo; infraccion: Infraccion } => !!a.infraccion);
+
+  // Con varias infracciones la sanción puede ser la suma: solo se contrasta la única
+  const discrepancias: Discrepancia[] = [];
+  if (conocidas.length === 1) {
+    const { ref, infraccion: i } = conocidas[0];
+    const cita = formatRef(ref);
+    if (multa.importe !== null && !i.velocidad && !importeValido(i, multa.importe)) {
+      const esperado = [
+        i.importeMaximo !== undefined ? `hasta ${i.importeMaximo} €` : "",
+        ...i.importes.map((n) => `${n} €`),
+      ].filter(Boolean);
+      discrepancias.push({
+        texto: `El ${cita} se sanciona con ${lista(esperado)}, y la multa impone ${multa.importe} €.`,
+        favorable: multa.importe > Math.min(...i.importes, i.importeMaximo ?? Infinity),
+      });
+    }
+    if (multa.puntos !== null && !i.puntos.includes(multa.puntos)) {
+      discrepancias.push({
+        texto: `El ${cita} conlleva ${lista(i.puntos)} puntos (Anexo II LSV), y la multa retira ${multa.puntos}.`,
+        favorable: multa.puntos > Math.min(...i.puntos),
+      });
+    }
+    if (multa.gravedad && !i.gravedades.includes(multa.gravedad)) {
+      discrepancias.push({
+        texto: `El ${cita} es una infracción ${lista(i.gravedades)}, y la multa la califica de ${multa.gravedad}.`,
+        favorable: ORDEN_GRAVEDAD[multa.gravedad] > Math.min(...i.gravedades.map((g) => ORDEN_GRAVEDAD[g])),
+      });
+    }
+  }
+  return { articulos, discrepancias };
+}
+
+/** Gravedad según el catálogo si todos los artículos reconocidos coinciden; "" si no se sabe */
+export function gravedadCatalogo(multa: MultaData): Gravedad {
+  const gravedades = new Set(revisarSancion(multa).articulos.flatMap((a) => a.infraccion?.gravedades || []));
+  if (gravedades.size === 0) return "";
+  return gravedades.has("leve") ? (gravedades.size === 1 ? "leve" : "") : "grave";
+}
+
+// ─── Bloque para el prompt ────────────────────────────────────────────────────
+
+export function formatInfracciones(r: RevisionSancion): string {
+  const lineas = r.articulos
+    .filter((a) => a.infraccion)
+    .map((a) => `${a.citado}: ${a.infraccion!.descripcion}. ${a.infraccion!.explicacion}`);
+  if (lineas.length === 0 && r.discrepancias.length === 0) return "";
+  const discrepancias = r.discrepancias.map((d) =>
+    d.favorable
+      ? `DISCREPANCIA VERIFICADA — ${d.texto} Alega la falta de correspondencia entre el precepto citado y la sanción impuesta (principio de tipicidad, art. 27 Ley 40/2015).`
+      : `NO ALEGUES esta diferencia, la sanción es más leve de lo previsto: ${d.texto}`
+  );
+  return `=== CATÁLOGO DE INFRACCIONES (contraste con la sanción) ===\n${[...lineas, ...discrepancias].join("\n")}\n\n`;
+}
@@ -0,0 +1,303 @@
+/**
+ * lib/multa.ts
+ *
+ * Datos estructurados de la multa (MultaData): esquema, validación y
+ * formateo para los prompts. Sin dependencias de servidor: la UI usa
+ * MULTA_FIELDS para pintar el formulario editable.
+ */
+
+export type Gravedad = "" | "leve" | "grave" | "muy grave";
+
+export const GRAVEDADES: Gravedad[] = ["leve", "grave", "muy grave"];
+
+export interface MultaData {
+  organismo: string;
+  direccionOrganismo: string;
+  expediente: string;
+  /** Fechas en ISO (AAAA-MM-DD) o "" si no constan */
+  fechaInfraccion: string;
+  fechaNotificacion: string;
+  /** Fecha en que se dictó la resolución sancionadora, si ya la hay */
+  fechaResolucion: string;
+  plazoRecurso: string;
+  tipoInfraccion: string;
+  /** Calificación según la LSV (art. 76-77) */
+  gravedad: Gravedad;
+  articulos: string[];
+  /** Euros */
+  importe: number | null;
+  puntos: number | null;
+  /** Solo en excesos de velocidad, km/h: medida por el cinemómetro, límite de la vía y la que el boletín da por corregida */
+  velocidadMedida: number | null;
+  velocidadLimite: number | null;
+  velocidadCorregida: number | null;
+  lugar: string;
+  matricula: string;
+  vehiculo: string;
+  denunciado: {
+    nombre: string;
+    dni: string;
+    domicilio: string;
+  };
+  textoLiteral: string;
+  observaciones: string;
+}
+
+export type MultaFieldKind = "text" | "textarea" | "date" | "number" | "list" | "select";
+
+/** Campos editables en la UI, en el orden en que se muestran */
+export const MULTA_FIELDS: { key: string; label: string; kind: MultaFieldKind; group: string; options?: string[] }[] = [
+  { key: "organismo", label: "Organismo sancionador", kind: "text", group: "Multa" },
+  { key: "direccionOrganismo", label: "Dirección del organismo", kind: "text", group: "Multa" },
+  { key: "expediente", label: "Expediente / boletín nº", kind: "text", group: "Multa" },
+  { key: "fechaInfraccion", label: "Fecha de la infracción", kind: "date", group: "Multa" },
+  { key: "fechaNotificacion", label: "Fecha de notificación", kind: "date", group: "Multa" },
+  { key: "fechaResolucion", label: "Fecha de la resolución", kind: "date", group: "Multa" },
+  { key: "plazoRecurso", label: "Plazo para recurrir", kind: "text", group: "Multa" },
+  { key: "tipoInfraccion", label: "Tipo de infracción", kind: "text", group: "Infracción" },
+  { key: "gravedad", label: "Gravedad", kind: "select", group: "Infracción", options: GRAVEDADES },
+  { key: "articulos", label: "Artículos infringidos", kind: "list", group: "Infracción" },
+  { key: "importe", label: "Importe (€)", kind: "number", group: "Infracción" },
+  { key: "puntos", label: "Puntos retirados", kind: "number", group: "Infracción" },
+  { key: "velocidadMedida", label: "Velocidad medida (km/h)", kind: "number", group: "Infracción" },
+  { key: "velocidadLimite", label: "Límite de la vía (km/h)", kind: "number", group: "Infracción" },
+  { key: "velocidadCorregida", label: "Velocidad corregida (km/h)", kind: "number", group: "Infracción" },
+  { key: "lugar", label: "Lugar de la infracción", kind: "text", group: "Infracción" },
+  { key: "matricula", label: "Matrícula", kind: "text", group: "Infracción" },
+  { key: "vehiculo", label: "Marca y modelo", kind: "text", group: "Infracción" },
+  { key: "denunciado.nombre", label: "Nombre", kind: "text", group: "Denunciado" },
+  { key: "denunciado.dni", label: "DNI/NIF", kind: "text", group: "Denunciado" },
+  { key: "denunciado.domicilio", label: "Domicilio", kind: "text", group: "Denunciado" },
+  { key: "textoLiteral", label: "Texto literal relevante", kind: "textarea", group: "Texto" },
+  { key: "observaciones", label: "Observaciones", kind: "textarea", group: "Texto" },
+];
+
+export function emptyMultaData(): MultaData {
+  return {
+    organismo: "",
+    direccionOrganismo: "",
+    expediente: "",
+    fechaInfraccion: "",
+    fechaNotificacion: "",
+    fechaResolucion: "",
+    plazoRecurso: "",
+    tipoInfraccion: "",
+    gravedad: "",
+    articulos: [],
+    importe: null,
+    puntos: null,
+    velocidadMedida: null,
+    velocidadLimite: null,
+    velocidadCorregida: null,
+    lugar: "",
+    matricula: "",
+    vehiculo: "",
+    denunciado: { nombre: "", dni: "", domicilio: "" },
+    textoLiteral: "",
+    observaciones: "",
+  };
+}
+
+// ─── Acceso por ruta ("denunciado.nombre") para el formulario ─────────────────
+
+export function getMultaField(data: MultaData, key: string): unknown {
+  return key.split(".").reduce<unknown>((obj, k) => (obj as Record<string, unknown> | undefined)?.[k], data);
+}
+
+export function setMultaField(data: MultaData, key: string, value: unknown): MultaData {
+  const [head, sub] = key.split(".");
+  if (sub) {
+    const nested = data[head as keyof MultaData] as Record<string, unknown>;
+    return { ...data, [head]: { ...nested, [sub]: value } };
+  }
+  return { ...data, [head]: value };
+}
+
+// ─── Esquema para el prompt ───────────────────────────────────────────────────
+
+export const MULTA_JSON_SCHEMA = `{
+  "organismo": string,            // organismo sancionador exacto
+  "direccionOrganismo": string,
+  "expediente": string,           // nº de expediente o boletín
+  "fechaInfraccion": string,      // AAAA-MM-DD
+  "fechaNotificacion": string,    // AAAA-MM-DD
+  "fechaResolucion": string,      // AAAA-MM-DD, solo si el documento es o cita una resolución sancionadora
+  "plazoRecurso": string,         // tal cual aparece ("20 días naturales"…)
+  "tipoInfraccion": string,
+  "gravedad": "leve" | "grave" | "muy grave" | "",  // calificación que indique el documento
+  "articulos": string[],          // p. ej. ["Art. 48 RGC, apartado 1, opción 5C"]
+  "importe": number | null,       // euros, sin símbolo
+  "puntos": number | null,
+  "velocidadMedida": number | null,    // km/h, solo en excesos de velocidad
+  "velocidadLimite": number | null,    // km/h, límite de la vía
+  "velocidadCorregida": number | null, // km/h, si el boletín indica la velocidad tras aplicar el margen
+  "lugar": string,
+  "matricula": string,
+  "vehiculo": string,             // marca y modelo
+  "denunciado": { "nombre": string, "dni": string, "domicilio": string },
+  "textoLiteral": string,         // hechos, motivación, base legal citada, advertencias sobre plazos
+  "observaciones": string
+}`;
+
+// ─── Validación ───────────────────────────────────────────────────────────────
+
+export const NOT_AN_OBJECT = "La respuesta no es un objeto JSON";
+
+/** Aviso de contenido, no de forma: los datos pueden completarse después a mano */
+export const SIN_DATOS_BASICOS = "No se extrajo ni organismo, ni expediente, ni tipo de infracción";
+
+const NOT_STATED = /^(no indicado|no consta|n\/?a|desconocido|-+)$/i;
+
+function toText(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  const s = String(v).trim();
+  return NOT_STATED.test(s) ? "" : s;
+}
+
+/** Acepta AAAA-MM-DD, DD/MM/AAAA y DD-MM-AAAA; devuelve ISO o null si no es fecha válida */
+export function normalizeDate(v: unknown): string | null {
+  const s = toText(v);
+  if (!s) return "";
+  let y: number, m: number, d: number;
+  let match = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/))) {
+    [d, m, y] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (y < 100) y += 2000;
+  } else {
+    return null;
+  }
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function toNumber(v: unknown): number | null | undefined {
+  if (v === null || v === undefined || v === "") return null;
+  if (typeof v === "number") return Number.isFinite(v) ? v : undefined;
+  const s = toText(v);
+  if (!s) return null;
+  // "1.000,50 €" → 1000.5
+  const n = Number(s.replace(/[^\d,.-]/g, "").replace(/\.(?=\d{3}\b)/g, "").replace(",", "."));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Normaliza la salida del modelo al esquema MultaData. Nunca lanza: devuelve
+ * los datos que se pudieron recuperar y la lista de problemas encontrados,
+ * que se usa para pedir al modelo una reparación.
+ */
+export function validateMultaData(raw: unknown): { data: MultaData; errors: string[] } {
+  const data = emptyMultaData();
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { data, errors: [NOT_AN_OBJECT] };
+  }
+  const r = raw as Record<string, unknown>;
+
+  const textKeys = [
+    "organismo", "direccionOrganismo", "expediente", "plazoRecurso", "tipoInfraccion",
+    "lugar", "matricula", "vehiculo", "textoLiteral", "observaciones",
+  ] as const;
+  for (const k of textKeys) {
+    if (r[k] !== undefined && typeof r[k] === "object" && r[k] !== null) errors.push(`"${k}" debe ser texto`);
+    else data[k] = toText(r[k]);
+  }
+
+  for (const k of ["fechaInfraccion", "fechaNotificacion", "fechaResolucion"] as const) {
+    const iso = normalizeDate(r[k]);
+    if (iso === null) errors.push(`"${k}" no es una fecha válida AAAA-MM-DD: ${JSON.stringify(r[k])}`);
+    else data[k] = iso;
+  }
+
+  const gravedad = toText(r.gravedad).toLowerCase().replace("_", " ");
+  if (GRAVEDADES.includes(gravedad as Gravedad)) data.gravedad = gravedad as Gravedad;
+  else if (gravedad) errors.push(`"gravedad" debe ser "leve", "grave", "muy grave" o "": ${JSON.stringify(r.gravedad)}`);
+
+  for (const k of ["importe", "puntos", "velocidadMedida", "velocidadLimite", "velocidadCorregida"] as const) {
+    const n = toNumber(r[k]);
+    if (n === undefined) errors.push(`"${k}" debe ser un número o null: ${JSON.stringify(r[k])}`);
+    else data[k] = n;
+  }
+
+  if (Array.isArray(r.articulos)) data.articulos = r.articulos.map(toText).filter(Boolean);
+  else if (typeof r.articulos === "string") data.articulos = r.articulos.split(/\s*;\s*|\n/).map(toText).filter(Boolean);
+  else if (r.articulos !== undefined && r.articulos !== null) errors.push(`"articulos" debe ser una lista de textos`);
+
+  const den = r.denunciado;
+  if (den && typeof den === "object" && !Array.isArray(den)) {
+    const d = den as Record<string, unknown>;
+    data.denunciado = { nombre: toText(d.nombre), dni: toText(d.dni), domicilio: toText(d.domicilio) };
+  } else if (den !== undefined && den !== null) {
+    errors.push(`"denunciado" debe ser un objeto { nombre, dni, domicilio }`);
+  }
+
+  if (!data.organismo && !data.expediente && !data.tipoInfraccion) {
+    errors.push(SIN_DATOS_BASICOS);
+  }
+
+  return { data, errors };
+}
+
+/** Extrae el primer objeto JSON de una respuesta (tolera ```json … ``` y texto alrededor) */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+// ─── Formateo para los prompts ────────────────────────────────────────────────
+
+const orNotStated = (v: string | number | null) => (v === null || v === "" ? "No indicado" : String(v));
+
+export function formatDateEs(iso: string): string {
+  if (!iso) return "";
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+export function formatMultaData(d: MultaData): string {
+  return `=== DATOS DE LA MULTA ===
+ORGANISMO SANCIONADOR: ${orNotStated(d.organismo)}
+DIRECCIÓN DEL ORGANISMO: ${orNotStated(d.direccionOrganismo)}
+EXPEDIENTE / BOLETÍN Nº: ${orNotStated(d.expediente)}
+FECHA DE LA INFRACCIÓN: ${orNotStated(formatDateEs(d.fechaInfraccion))}
+FECHA DE NOTIFICACIÓN: ${orNotStated(formatDateEs(d.fechaNotificacion))}
+FECHA DE LA RESOLUCIÓN: ${orNotStated(formatDateEs(d.fechaResolucion))}
+PLAZO PARA RECURRIR: ${orNotStated(d.plazoRecurso)}
+
+=== INFRACCIÓN ===
+TIPO DE INFRACCIÓN: ${orNotStated(d.tipoInfraccion)}
+GRAVEDAD: ${orNotStated(d.gravedad)}
+ARTÍCULOS INFRINGIDOS: ${orNotStated(d.articulos.filter(Boolean).join("; "))}
+IMPORTE DE LA SANCIÓN: ${d.importe === null ? "No indicado" : `${d.importe} €`}
+PUNTOS RETIRADOS: ${orNotStated(d.puntos)}
+VELOCIDAD MEDIDA / LÍMITE / CORREGIDA: ${
+    d.velocidadMedida === null && d.velocidadLimite === null
+      ? "No aplica"
+      : `${orNotStated(d.velocidadMedida)} / ${orNotStated(d.velocidadLimite)} / ${orNotStated(d.velocidadCorregida)} km/h`
+  }
+LUGAR DE LA INFRACCIÓN: ${orNotStated(d.lugar)}
+MATRÍCULA / VEHÍCULO: ${orNotStated(d.matricula)}
+MARCA Y MODELO: ${orNotStated(d.vehiculo)}
+
+=== DATOS DEL DENUNCIADO ===
+NOMBRE: ${orNotStated(d.denunciado.nombre)}
+DNI/NIF: ${orNotStated(d.denunciado.dni)}
+DOMICILIO: ${orNotStated(d.denunciado.domicilio)}
+
+=== TEXTO LITERAL RELEVANTE ===
+${orNotStated(d.textoLiteral)}
+
+=== OBSERVACIONES ===
+${orNotStated(d.observaciones)}`;
+}
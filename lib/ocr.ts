@@ -0,0 +1,181 @@
+/**
+ * lib/ocr.ts
+ *
+ * OCR local (tesseract.js + datos de idioma español) para cuando no hay
+ * modelo de visión disponible. Los PDF escaneados no se rasterizan: se
+ * extraen las imágenes de página que lleva dentro (JPEG o Flate en gris o
+ * RGB) y se reconocen una a una. Las páginas JBIG2, CCITT o JPEG 2000 y
+ * los PDF vectoriales sin texto no se leen: el error lo dice para que el
+ * usuario suba una foto o captura. Solo servidor.
+ */
+
+import { deflateSync, inflateSync, constants as zlibConstants } from "zlib";
+import { createWorker } from "tesseract.js";
+import spa from "@tesseract.js-data/spa";
+
+/** Páginas como máximo: el OCR en WASM ronda varios segundos por página */
+export const MAX_OCR_PAGES = 5;
+
+/** Por debajo de este ancho es un logo, sello o firma, no una página escaneada */
+const MIN_PAGE_WIDTH = 400;
+
+// ─── Imágenes embebidas en el PDF ─────────────────────────────────────────────
+
+interface PdfImage {
+  width: number;
+  data: Buffer;
+}
+
+export interface PdfImages {
+  images: PdfImage[];
+  /** Formatos de las imágenes de página que no se pudieron decodificar, sin repetir */
+  unsupported: string[];
+}
+
+/** Habituales en escáneres de oficina (blanco y negro) y en algunos PDF/A */
+const UNSUPPORTED_FILTERS: Record<string, string> = {
+  JBIG2Decode: "JBIG2",
+  CCITTFaxDecode: "CCITT G3/G4",
+  JPXDecode: "JPEG 2000",
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([len, body, crc]);
+}
+
+/** Filas ya con byte de filtro PNG delante → fichero PNG (gris o RGB) */
+function encodePng(width: number, height: number, bits: number, channels: number, rows: Buffer): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = bits;
+  ihdr[9] = channels === 1 ? 0 : 2;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", deflateSync(rows)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+const dictNumber = (dict: string, key: string) => Number(dict.match(new RegExp(`/${key}\\s+(\\d+)`))?.[1] ?? NaN);
+
+/** Imagen Flate (píxeles en crudo) → PNG. Solo gris/RGB de 1 u 8 bits, lo habitual en escáneres */
+function flateToPng(dict: string, stream: Buffer): Buffer | null {
+  const width = dictNumber(dict, "Width");
+  const height = dictNumber(dict, "Height");
+  const bits = dictNumber(dict, "BitsPerComponent");
+  if (!width || !height || (bits !== 1 && bits !== 8)) return null;
+
+  let raw: Buffer;
+  try {
+    raw = inflateSync(stream, { finishFlush: zlibConstants.Z_SYNC_FLUSH });
+  } catch {
+    return null;
+  }
+  // Con /Predictor >= 10 cada fila ya lleva su byte de filtro PNG
+  const predicted = dictNumber(dict, "Predictor") >= 10;
+  const rowBytes = Math.floor(raw.length / height) - (predicted ? 1 : 0);
+  const channels = (rowBytes * 8) / (width * bits);
+  if (channels !== 1 && !(channels === 3 && bits === 8)) return null;
+
+  if (predicted) return encodePng(width, height, bits, channels, raw.subarray(0, (rowBytes + 1) * height));
+  const rows = Buffer.alloc((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) raw.copy(rows, y * (rowBytes + 1) + 1, y * rowBytes, (y + 1) * rowBytes);
+  return encodePng(width, height, bits, channels, rows);
+}
+
+/** Recorre los objetos del PDF y devuelve las imágenes JPEG/Flate en orden de aparición */
+export function extractPdfImages(pdf: Buffer): PdfImages {
+  const src = pdf.toString("latin1");
+  const images: PdfImage[] = [];
+  const unsupported = new Set<string>();
+  const objRe = /\d+\s+\d+\s+obj\b/g;
+  let m: RegExpExecArray | null;
+
+  while ((m = objRe.exec(src))) {
+    const start = m.index + m[0].length;
+    const streamAt = src.indexOf("stream", start);
+    const endObj = src.indexOf("endobj", start);
+    if (streamAt === -1 || (endObj !== -1 && endObj < streamAt)) continue;
+
+    const dict = src.slice(start, streamAt);
+    if (!/\/Subtype\s*\/Image/.test(dict)) continue;
+
+    const dataStart = streamAt + 6 + (src[streamAt + 6] === "\r" ? 2 : 1);
+    const dataEnd = src.indexOf("endstream", dataStart);
+    if (dataEnd === -1) break;
+    const stream = pdf.subarray(dataStart, dataEnd);
+    objRe.lastIndex = dataEnd;
+
+    const width = dictNumber(dict, "Width");
+    if (!(width >= MIN_PAGE_WIDTH)) continue;
+    const other = Object.keys(UNSUPPORTED_FILTERS).find((f) => dict.includes(`/${f}`));
+    if (other) unsupported.add(UNSUPPORTED_FILTERS[other]);
+    else if (/\/DCTDecode/.test(dict)) images.push({ width, data: stream });
+    else if (/\/FlateDecode/.test(dict)) {
+      const png = flateToPng(dict, stream);
+      if (png) images.push({ width, data: png });
+      else unsupported.add("Flate con color indexado o CMYK");
+    }
+  }
+  return { images, unsupported: Array.from(unsupported) };
+}
+
+/** Por qué no hay páginas que reconocer, en palabras del usuario */
+function noPagesError({ unsupported }: PdfImages): Error {
+  if (unsupported.length) {
+    return new Error(
+      `las páginas escaneadas del PDF están en ${unsupported.join(", ")}, que el OCR local no lee (solo JPEG y Flate en gris o RGB): sube una foto o captura de la multa`
+    );
+  }
+  return new Error("el PDF no tiene texto ni imágenes de página escaneada: sube una foto o captura de la multa");
+}
+
+// ─── Reconocimiento ───────────────────────────────────────────────────────────
+
+/**
+ * Texto reconocido de una imagen o de las páginas escaneadas de un PDF.
+ * Lanza si no hay nada que reconocer, nombrando el formato de página que
+ * no se admite (JBIG2, CCITT…). Si solo algunas páginas lo están, se
+ * reconocen las demás. signal corta entre página y página.
+ */
+export async function ocrDocument(buffer: Buffer, mimeType: string, signal?: AbortSignal): Promise<string> {
+  let pages = [buffer];
+  if (mimeType === "application/pdf") {
+    const pdf = extractPdfImages(buffer);
+    if (pdf.images.length === 0) throw noPagesError(pdf);
+    if (pdf.unsupported.length) console.warn(`[ocr] páginas omitidas en ${pdf.unsupported.join(", ")}`);
+    pages = pdf.images.slice(0, MAX_OCR_PAGES).map((img) => img.data);
+  }
+
+  const worker = await createWorker("spa", 1, { langPath: spa.langPath, gzip: spa.gzip, cacheMethod: "none" });
+  try {
+    const texts: string[] = [];
+    for (const page of pages) {
+      if (signal?.aborted) throw new Error("OCR cancelado");
+      const { data } = await worker.recognize(page);
+      texts.push(data.text.trim());
+    }
+    return texts.filter(Boolean).join("\n\n");
+  } finally {
+    await worker.terminate();
+  }
+}
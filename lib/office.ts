@@ -0,0 +1,55 @@
+/**
+ * lib/office.ts
+ *
+ * Texto de documentos de Word (.docx, con mammoth) y OpenDocument (.odt,
+ * leyendo content.xml del zip). Solo servidor.
+ */
+
+import JSZip from "jszip";
+import mammoth from "mammoth";
+
+export const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const ODT_MIME = "application/vnd.oasis.opendocument.text";
+
+export type OfficeKind = "docx" | "odt";
+
+/** El navegador no siempre rellena el MIME de estos ficheros: se mira también la extensión */
+export function officeKindOf(mimeType: string | undefined, fileName: string): OfficeKind | null {
+  if (mimeType === DOCX_MIME || /\.docx$/i.test(fileName)) return "docx";
+  if (mimeType === ODT_MIME || /\.odt$/i.test(fileName)) return "odt";
+  return null;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, code: string) => {
+    if (code[0] !== "#") return XML_ENTITIES[code] ?? m;
+    const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(n) ? String.fromCodePoint(n) : m;
+  });
+}
+
+/** Texto plano de content.xml: un párrafo/encabezado por línea */
+function odtXmlToText(xml: string): string {
+  const body = xml.match(/<office:text[\s\S]*<\/office:text>/)?.[0] ?? xml;
+  return decodeEntities(
+    body
+      .replace(/<text:tab\/>/g, "\t")
+      .replace(/<text:line-break\/>/g, "\n")
+      .replace(/<text:s(?: text:c="(\d+)")?\/>/g, (_, c?: string) => " ".repeat(Number(c) || 1))
+      .replace(/<\/text:(p|h)>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  );
+}
+
+export async function extractOfficeText(buffer: Buffer, kind: OfficeKind): Promise<string> {
+  if (kind === "docx") {
+    const { value } = await mammoth.extractRawText({ buffer });
+    return value.replace(/\n{3,}/g, "\n\n").trim();
+  }
+  const zip = await JSZip.loadAsync(buffer);
+  const content = zip.file("content.xml");
+  if (!content) throw new Error("El fichero .odt no contiene content.xml");
+  return odtXmlToText(await content.async("string")).replace(/\n{3,}/g, "\n\n").trim();
+}
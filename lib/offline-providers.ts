@@ -0,0 +1,164 @@
+/**
+ * lib/offline-providers.ts
+ *
+ * Proveedores para trabajar sin red ni API keys (solo servidor):
+ *   LLM_MODE=mock  → respuestas deterministas desde fixtures (LLM_FIXTURES_DIR/<hash>.txt)
+ *                    o, si no hay fixture, una respuesta sintética según la fase.
+ *   LLM_MODE=local → servidor OpenAI-compatible local (llama.cpp, Ollama…) en
+ *                    LOCAL_LLM_BASE_URL con LOCAL_LLM_MODEL. Con LLM_RECORD_FIXTURES=1
+ *                    guarda cada respuesta como fixture para reproducirla luego en mock.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  ChatRequest,
+  LLMProvider,
+  VisionRequest,
+  createOpenAICompatibleProvider,
+  getOfflineMode,
+  registerProvider,
+} from "./providers";
+import { DESCRIBE_MARKER } from "./support";
+import type { MultaData } from "./multa";
+
+const fixturesDir = () => path.resolve(process.env.LLM_FIXTURES_DIR || "fixtures/llm");
+
+/** Clave del fixture: hash del prompt completo (y de la imagen, si la hay) */
+export function promptHash(req: ChatRequest | VisionRequest): string {
+  const h = createHash("sha256");
+  h.update(req.systemPrompt || "");
+  h.update("\n---\n");
+  h.update(req.userPrompt);
+  if ("image" in req) h.update(req.image.base64);
+  return h.digest("hex").slice(0, 16);
+}
+
+async function readFixture(hash: string): Promise<string | null> {
+  try {
+    return await readFile(path.join(fixturesDir(), `${hash}.txt`), "utf8");
+  } catch {
+    return null;
+  }
+}
+
+async function writeFixture(hash: string, content: string) {
+  await mkdir(fixturesDir(), { recursive: true });
+  await writeFile(path.join(fixturesDir(), `${hash}.txt`), content, "utf8");
+}
+
+// ─── Mock ─────────────────────────────────────────────────────────────────────
+
+const MOCK_MULTA: MultaData = {
+  organismo: "Jefatura Provincial de Tráfico de Madrid (Dirección General de Tráfico)",
+  direccionOrganismo: "C/ Arturo Soria 143, 28043 Madrid",
+  expediente: "280000000000",
+  fechaInfraccion: "2025-02-03",
+  fechaNotificacion: "2025-02-17",
+  fechaResolucion: "",
+  plazoRecurso: "20 días naturales",
+  tipoInfraccion: "Exceso de velocidad",
+  gravedad: "grave",
+  articulos: ["Art. 48 RGC, apartado 1, opción 5C"],
+  importe: 100,
+  puntos: 0,
+  velocidadMedida: 84,
+  velocidadLimite: 70,
+  velocidadCorregida: 79,
+  lugar: "M-30 km 12,4",
+  matricula: "0000XXX",
+  vehiculo: "",
+  denunciado: { nombre: "", dni: "", domicilio: "" },
+  textoLiteral: "[Respuesta simulada — LLM_MODE=mock]",
+  observaciones: "Respuesta generada sin red por el proveedor mock.",
+};
+
+function mockRecurso(title: string, hash: string): string {
+  return `${title}
+
+DATOS DEL RECURRENTE
+NOMBRE: ____________  DNI: ____________  DOMICILIO: ____________
+TELÉFONO: ____________  EMAIL: ____________
+
+A LA JEFATURA PROVINCIAL DE TRÁFICO DE MADRID
+
+HECHOS
+PRIMERO. Que se ha notificado al recurrente la denuncia referida en los datos de la multa.
+
+FUNDAMENTOS DE DERECHO
+PRIMERO. Artículo 24 de la Constitución Española: derecho de defensa.
+SEGUNDO. Ley 39/2015, de Procedimiento Administrativo Común.
+
+SOLICITA
+Que se tenga por presentado este escrito y se acuerde el archivo del expediente.
+
+En ____________, a ____ de ____________ de ______.
+
+Fdo.: ____________
+
+[Respuesta simulada · LLM_MODE=mock · ${hash}]`;
+}
+
+/** Respuesta sintética según la fase del pipeline que hace la llamada */
+function syntheticResponse(req: ChatRequest | VisionRequest, hash: string): string {
+  const prompt = `${req.systemPrompt || ""}\n${req.userPrompt}`;
+  if (req.json) return JSON.stringify(MOCK_MULTA, null, 2);
+  if (prompt.includes(DESCRIBE_MARKER)) return `Fotografía de una señal vertical parcialmente tapada por vegetación. [Respuesta simulada · ${hash}]`;
+  if (prompt.includes("=== BORRADOR 1")) return mockRecurso("RECURSO DEFINITIVO (FUSIÓN)", hash);
+  return mockRecurso(`RECURSO — BORRADOR ${req.model}`, hash);
+}
+
+function createMockProvider(): LLMProvider {
+  async function respond(req: ChatRequest | VisionRequest): Promise<string> {
+    const hash = promptHash(req);
+    const content = (await readFixture(hash)) ?? syntheticResponse(req, hash);
+    // Simula el streaming línea a línea para poder probar el progreso en la UI
+    if (req.onDelta) for (const line of content.split(/(?<=\n)/)) req.onDelta(line);
+    return content;
+  }
+
+  return {
+    id: "mock",
+    label: "Mock",
+    envKey: "MOCK_API_KEY",
+    chat: respond,
+    vision: respond,
+  };
+}
+
+// ─── Servidor local OpenAI-compatible ─────────────────────────────────────────
+
+function createLocalProvider(): LLMProvider {
+  const base = createOpenAICompatibleProvider({
+    id: "local",
+    label: "Local",
+    envKey: "LOCAL_LLM_API_KEY",
+  });
+
+  // Los modelos de los agentes (openrouter/auto, mistral-small…) no existen en local
+  const localize = <T extends ChatRequest>(req: T): T => ({
+    ...req,
+    apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+    baseUrl: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+    model: process.env.LOCAL_LLM_MODEL || req.model,
+  });
+
+  async function record<T extends ChatRequest>(req: T, call: (r: T) => Promise<string>): Promise<string> {
+    const content = await call(localize(req));
+    if (process.env.LLM_RECORD_FIXTURES === "1") await writeFixture(promptHash(req), content);
+    return content;
+  }
+
+  return {
+    ...base,
+    chat: (req) => record(req, base.chat),
+    vision: (req) => record(req, base.vision!),
+  };
+}
+
+// Solo el modo activo: fuera de LLM_MODE no aparecen en listProviders() ni
+// reciben key en getServerApiKeys().
+const mode = getOfflineMode();
+if (mode === "mock") registerProvider(createMockProvider());
+if (mode === "local") registerProvider(createLocalProvider());
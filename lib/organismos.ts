@@ -0,0 +1,94 @@
+/**
+ * lib/organismos.ts
+ *
+ * Registro de organismos sancionadores (data/organismos.json): patrones de
+ * reconocimiento, sede electrónica, dirección postal, plazo de resolución y
+ * sentido del silencio. Las entradas van de la más específica a la más
+ * genérica y gana la primera que coincide. Sin dependencias de servidor.
+ */
+
+import registro from "../data/organismos.json";
+import type { MultaData } from "./multa";
+
+export type TipoOrganismo = "dgt" | "autonomico" | "ayuntamiento" | "ora" | "otro";
+
+export interface EnlaceSede {
+  label: string;
+  url: string;
+}
+
+export interface Organismo {
+  id: string;
+  /** Puede llevar {1}: se sustituye por el primer grupo capturado (p. ej. la provincia) */
+  nombre: string;
+  tipo: TipoOrganismo;
+  /** Expresiones regulares, sin distinguir mayúsculas */
+  patrones: string[];
+  sede: EnlaceSede[];
+  presencial?: string;
+  direccionPostal?: string;
+  telefono?: string;
+  /** Plazo que tiene el órgano para resolver el recurso */
+  resolucion: string;
+  /** Sentido del silencio si no hay respuesta en plazo ("administrativo negativo…") */
+  silencio: string;
+  notas?: string;
+}
+
+interface RegistroOrganismos {
+  version: number;
+  actualizado: string;
+  organismos: Organismo[];
+  /** Se usa cuando ningún patrón coincide */
+  porDefecto: Organismo;
+}
+
+const REGISTRO = registro as RegistroOrganismos;
+
+export const VERSION_ORGANISMOS = `v${REGISTRO.version} (${REGISTRO.actualizado})`;
+
+const COMPILADOS = REGISTRO.organismos.map((organismo) => ({
+  organismo,
+  patrones: organismo.patrones.map((p) => new RegExp(p, "i")),
+}));
+
+// ─── Búsqueda ─────────────────────────────────────────────────────────────────
+
+export interface DeteccionOrganismo {
+  organismo: Organismo;
+  /** Expresión del documento que identificó al organismo, o "" si es el genérico */
+  indicio: string;
+}
+
+const MINUSCULAS = new Set(["de", "del", "la", "las", "los", "y"]);
+
+function titulo(texto: string): string {
+  return texto
+    .trim()
+    .split(/\s+/)
+    .map((w, i) => (i > 0 && MINUSCULAS.has(w) ? w : w.charAt(0).toUpperCase() + w.slice(1)))
+    .join(" ");
+}
+
+function buscar(texto: string): DeteccionOrganismo | null {
+  for (const { organismo, patrones } of COMPILADOS) {
+    for (const re of patrones) {
+      const m = texto.match(re);
+      if (!m) continue;
+      const nombre = m[1] ? organismo.nombre.replace("{1}", titulo(m[1])) : organismo.nombre.replace(/ de \{1\}$/, "");
+      return { organismo: { ...organismo, nombre }, indicio: m[0].trim() };
+    }
+  }
+  return null;
+}
+
+/**
+ * Primero se mira el organismo y su dirección: el texto literal de una multa
+ * municipal suele mencionar a la DGT (detracción de puntos) y no debe
+ * confundir la búsqueda. Solo si ahí no hay nada se recorre el documento.
+ */
+export function buscarOrganismo(multa: MultaData): DeteccionOrganismo {
+  const cabecera = [multa.organismo, multa.direccionOrganismo].join("\n").toLowerCase();
+  const documento = [multa.textoLiteral, multa.observaciones].join("\n").toLowerCase();
+  return buscar(cabecera) || buscar(documento) || { organismo: REGISTRO.porDefecto, indicio: "" };
+}
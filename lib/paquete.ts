@@ -0,0 +1,130 @@
+/**
+ * lib/paquete.ts
+ *
+ * Paquete para presentar en la sede electrónica (solo servidor): un ZIP con
+ * el escrito en los formatos pedidos, la multa original, cada prueba
+ * renombrada con su número de documento, la guía de presentación aparte y
+ * un manifiesto con el SHA-256 de cada fichero. SHA256SUMS permite
+ * comprobarlos con `sha256sum -c SHA256SUMS`.
+ */
+
+import { createHash } from "crypto";
+import JSZip from "jszip";
+import type { GenerateBundleRequest } from "./contracts";
+import { DocumentoRecurso, FORMATOS_DOCUMENTO, FormatoDocumento, TITULO_GUIA, etiquetaDocumento } from "./documento";
+import { generarDocx } from "./docx";
+import { generarPdf } from "./pdf";
+import { ESCRITOS } from "./tramite";
+
+export interface FicheroManifiesto {
+  nombre: string;
+  descripcion: string;
+  bytes: number;
+  sha256: string;
+}
+
+export interface Manifiesto {
+  /** ISO con hora */
+  generado: string;
+  expediente: string;
+  escrito: string;
+  ficheros: FicheroManifiesto[];
+  /** Pruebas numeradas de las que no llegó el fichero: hay que aportarlas a mano */
+  faltan: string[];
+}
+
+/** "Señal tapada (2).JPG" → "senal-tapada-2" */
+export function slug(texto: string): string {
+  return (
+    texto
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "fichero"
+  );
+}
+
+/** Separa "foto.final.JPG" en ["foto.final", ".jpg"] */
+function partes(nombre: string): [string, string] {
+  const m = nombre.match(/^(.*?)(\.[a-z0-9]{1,5})?$/i)!;
+  return [m[1] || nombre, (m[2] || "").toLowerCase()];
+}
+
+const sha256 = (datos: Buffer) => createHash("sha256").update(datos).digest("hex");
+
+const GENERADORES: Record<FormatoDocumento, (d: DocumentoRecurso) => Promise<Buffer>> = {
+  docx: generarDocx,
+  pdf: generarPdf,
+};
+
+/**
+ * El escrito va sin la guía, que se entrega como documento aparte con el
+ * recuadro del plazo; las pruebas sin fichero quedan listadas en `faltan`.
+ */
+export async function crearPaquete(
+  documento: DocumentoRecurso,
+  peticion: GenerateBundleRequest,
+  formatos: FormatoDocumento[]
+): Promise<{ zip: Buffer; nombre: string }> {
+  const ficheros: (FicheroManifiesto & { datos: Buffer })[] = [];
+  const agregar = (nombre: string, descripcion: string, datos: Buffer) =>
+    ficheros.push({ nombre, descripcion, datos, bytes: datos.length, sha256: sha256(datos) });
+
+  const escrito = peticion.escrito ? ESCRITOS[peticion.escrito].label : "Recurso";
+  for (const formato of formatos) {
+    const datos = await GENERADORES[formato]({ ...documento, instructions: undefined });
+    agregar(`01-${slug(escrito)}.${formato}`, `${escrito} (${FORMATOS_DOCUMENTO[formato].label})`, datos);
+  }
+
+  if (peticion.multaFile?.base64) {
+    const [, extension] = partes(peticion.multaFile.name || "");
+    agregar(`02-multa-original${extension}`, `Multa original: ${peticion.multaFile.name}`, Buffer.from(peticion.multaFile.base64, "base64"));
+  }
+
+  const faltan: string[] = [];
+  for (const prueba of documento.documentos || []) {
+    const etiqueta = `${etiquetaDocumento(prueba.index)}: ${prueba.context.trim() || prueba.name}`;
+    if (!prueba.base64) {
+      faltan.push(`${etiqueta} (${prueba.name})`);
+      continue;
+    }
+    const [base, extension] = partes(prueba.name);
+    const numero = String(prueba.index).padStart(2, "0");
+    agregar(`03-documento-${numero}-${slug(base)}${extension}`, etiqueta, Buffer.from(prueba.base64, "base64"));
+  }
+
+  if (peticion.instructions?.trim()) {
+    const guia: DocumentoRecurso = {
+      maqueta: { ...documento.maqueta, destinatario: [] },
+      plazo: peticion.plazo,
+      escrito: "",
+      instructions: peticion.instructions,
+    };
+    for (const formato of formatos) {
+      const datos = await GENERADORES[formato](guia);
+      agregar(`04-guia-de-presentacion.${formato}`, `${TITULO_GUIA} (${FORMATOS_DOCUMENTO[formato].label})`, datos);
+    }
+  }
+
+  const expediente = String(peticion.multaData?.expediente ?? "").trim();
+  const manifiesto: Manifiesto = {
+    generado: new Date().toISOString(),
+    expediente,
+    escrito,
+    ficheros: ficheros.map((f) => ({ nombre: f.nombre, descripcion: f.descripcion, bytes: f.bytes, sha256: f.sha256 })),
+    faltan,
+  };
+
+  const zip = new JSZip();
+  const fecha = new Date(manifiesto.generado);
+  for (const f of ficheros) zip.file(f.nombre, f.datos, { date: fecha });
+  zip.file("manifiesto.json", JSON.stringify(manifiesto, null, 2), { date: fecha });
+  zip.file("SHA256SUMS", ficheros.map((f) => `${f.sha256}  ${f.nombre}\n`).join(""), { date: fecha });
+
+  return {
+    zip: await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }),
+    nombre: `recurso-${expediente ? slug(expediente) : Date.now()}.zip`,
+  };
+}
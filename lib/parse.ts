@@ -0,0 +1,140 @@
+/**
+ * lib/parse.ts
+ *
+ * Fase 1: lectura del documento de la multa (texto del PDF, Word/ODT,
+ * visión u OCR local).
+ */
+
+import pdfParse from "pdf-parse";
+import { extractOfficeText, officeKindOf } from "./office";
+import { ocrDocument } from "./ocr";
+import { MULTA_JSON_SCHEMA, MultaData, NOT_AN_OBJECT, extractJson, validateMultaData } from "./multa";
+import { resolveProvider } from "./providers";
+import "./offline-providers";
+
+const PARSE_PROMPT = `Eres un asistente especializado en leer documentos de multas y sanciones administrativas españolas.
+
+Analiza este documento y extrae TODA la información visible en un objeto JSON con exactamente este esquema:
+
+${MULTA_JSON_SCHEMA}
+
+Reglas:
+- Usa exactamente lo que veas escrito. Si un campo no aparece en el documento usa "" (o null en importe/puntos).
+- Fechas en formato AAAA-MM-DD.
+- En "textoLiteral" transcribe lo más importante: hechos, motivación, base legal citada, advertencias sobre plazos.
+- No inventes datos — solo extrae lo que está escrito en el documento.
+
+Responde ÚNICAMENTE con el objeto JSON, sin texto antes ni después.`;
+
+/** Texto del documento que acompaña a la reparación: sin él el modelo solo podría inventar los datos que faltan */
+const MAX_TEXTO_REPARACION = 12000;
+
+/** Sin texto, el documento va como imagen adjunta en la misma llamada */
+const repairPrompt = (previous: string, errors: string[], texto?: string) => `El siguiente JSON extraído de una multa no cumple el esquema requerido.
+
+ESQUEMA:
+${MULTA_JSON_SCHEMA}
+
+PROBLEMAS DETECTADOS:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+JSON ORIGINAL:
+${previous.slice(0, 8000)}
+
+${texto === undefined ? "DOCUMENTO: la imagen adjunta." : `TEXTO DEL DOCUMENTO:\n${texto.slice(0, MAX_TEXTO_REPARACION)}`}
+
+Corrige los problemas con lo que diga el documento, sin inventar datos (usa "" o null si un dato no consta) y responde ÚNICAMENTE con el objeto JSON corregido.`;
+
+const PARSE_MODEL = { provider: "openrouter", model: "openrouter/auto" };
+
+/** Menos texto que esto tras el OCR es ruido, no una multa */
+const MIN_OCR_CHARS = 40;
+
+export interface ParsedMulta {
+  multaData: MultaData;
+  /** Problemas de validación que quedaron tras la reparación (para revisar en la UI) */
+  warnings: string[];
+}
+
+/** Valida la salida del modelo y, si no cumple el esquema, pide una reparación con el documento delante */
+async function toMultaData(
+  raw: string,
+  repair: (previous: string, errors: string[]) => Promise<string>
+): Promise<ParsedMulta> {
+  let { data, errors } = validateMultaData(extractJson(raw));
+  if (errors.length > 0) {
+    console.warn("[parse] JSON inválido, reparando:", errors);
+    const second = validateMultaData(extractJson(await repair(raw, errors)));
+    if (second.errors.length < errors.length) ({ data, errors } = second);
+  }
+  if (errors.includes(NOT_AN_OBJECT)) throw new Error("El modelo no devolvió datos estructurados");
+  return { multaData: data, warnings: errors };
+}
+
+export async function parseDocument(
+  openrouterApiKey: string,
+  base64: string,
+  mimeType: string,
+  fileName: string
+): Promise<ParsedMulta> {
+  const provider = resolveProvider(PARSE_MODEL.provider);
+  const base = { apiKey: openrouterApiKey, model: PARSE_MODEL.model, maxTokens: 2000, temperature: 0.1, json: true };
+  const fromText = async (text: string) =>
+    toMultaData(await provider.chat({ ...base, userPrompt: `${PARSE_PROMPT}\n\nTEXTO DEL DOCUMENTO:\n${text}` }), (previous, errors) =>
+      provider.chat({ ...base, userPrompt: repairPrompt(previous, errors, text) })
+    );
+
+  // Word/ODT: siempre hay texto, no tiene sentido la visión
+  const officeKind = officeKindOf(mimeType, fileName);
+  if (officeKind) {
+    const text = await extractOfficeText(Buffer.from(base64, "base64"), officeKind).catch((err) => {
+      throw new Error(`No se pudo leer ${fileName}: ${err instanceof Error ? err.message : "Error"}`);
+    });
+    if (!text) throw new Error(`${fileName} no contiene texto`);
+    return fromText(text);
+  }
+
+  // Solo un PDF sin capa de texto (o ilegible para pdf-parse) pasa a visión/OCR;
+  // los errores del modelo al leer el texto se propagan tal cual
+  if (mimeType === "application/pdf") {
+    const text = await pdfParse(Buffer.from(base64, "base64"))
+      .then((parsed) => (parsed.text || "").trim())
+      .catch((err) => {
+        console.warn("[parse] pdf-parse falló, usando visión:", err instanceof Error ? err.message : err);
+        return "";
+      });
+    if (text.length > 100) return fromText(text);
+  }
+
+  let result: string | null = null;
+  let visionError = `${provider.label} no admite imágenes`;
+  if (provider.vision) {
+    try {
+      result = await provider.vision({ ...base, userPrompt: PARSE_PROMPT, image: { base64, mimeType } });
+    } catch (err) {
+      visionError = err instanceof Error ? err.message : "Error";
+    }
+  }
+
+  // Sin visión: OCR local y el mismo prompt de texto que los PDF con capa de texto
+  if (result === null) {
+    console.warn(`[parse] visión no disponible (${visionError}), usando OCR local`);
+    let text: string;
+    try {
+      text = await ocrDocument(Buffer.from(base64, "base64"), mimeType);
+    } catch (err) {
+      throw new Error(`Parseo OCR: ${visionError} · OCR local: ${err instanceof Error ? err.message : "Error"}`);
+    }
+    if (text.length < MIN_OCR_CHARS) throw new Error(`Parseo OCR: ${visionError} · OCR local: no se reconoció texto`);
+    return fromText(text);
+  }
+
+  try {
+    // Si hubo visión, la reparación vuelve a ver la imagen
+    return await toMultaData(result, (previous, errors) =>
+      provider.vision!({ ...base, userPrompt: repairPrompt(previous, errors), image: { base64, mimeType } })
+    );
+  } catch (err) {
+    throw new Error(`No se pudo parsear ${fileName}: ${err instanceof Error ? err.message : "Error"}`);
+  }
+}
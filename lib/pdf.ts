@@ -0,0 +1,278 @@
+/**
+ * lib/pdf.ts
+ *
+ * Versión PDF/A-2b del documento de /api/generate-doc (solo servidor):
+ * misma maqueta y plantilla que el .docx, con Tinos (métricas de Times New
+ * Roman) incrustada para que se vea igual en cualquier visor y numeración
+ * de páginas. Las sedes electrónicas y registros suelen pedir PDF.
+ */
+
+import path from "path";
+import PDFDocument from "pdfkit";
+import { imagenAnexo } from "./anexo";
+import {
+  AVISO_LEGAL,
+  DocumentoRecurso,
+  TITULO_ANEXO,
+  TITULO_GUIA,
+  TITULO_INDICE,
+  Tramo,
+  bloquesEscrito,
+  detallePlazo,
+  entradaIndice,
+  etiquetaDocumento,
+  pieImagen,
+  tipoLineaGuia,
+} from "./documento";
+import { formatFechaLarga } from "./plazos";
+
+// ─── Fuentes ──────────────────────────────────────────────────────────────────
+
+const FUENTES = path.join(process.cwd(), "node_modules/@fontsource/tinos/files");
+
+const REGULAR = "Tinos";
+const NEGRITA = "Tinos-Bold";
+const CURSIVA = "Tinos-Italic";
+const NEGRITA_CURSIVA = "Tinos-BoldItalic";
+
+const fuente = (t: Tramo) => (t.negrita ? (t.cursiva ? NEGRITA_CURSIVA : NEGRITA) : t.cursiva ? CURSIVA : REGULAR);
+
+/**
+ * El subconjunto latino de Tinos no tiene emojis ni la mayoría de símbolos:
+ * se sustituyen los habituales y se quita el resto en vez de dejar huecos.
+ */
+const SUSTITUCIONES: [RegExp, string][] = [
+  [/→/g, "->"],
+  [/≤/g, "<="],
+  [/≥/g, ">="],
+  [/[✓✔]/g, "-"],
+];
+
+const FUERA_DE_FUENTE = /[^\u0000-\u00ff\u0131\u0152\u0153\u02c6\u02dc\u2000-\u206f\u20ac\u2122\u2212]/g;
+
+const textoPdf = (s: string) =>
+  SUSTITUCIONES.reduce((t, [re, sustituto]) => t.replace(re, sustituto), s).replace(FUERA_DE_FUENTE, "");
+
+// ─── Maqueta ──────────────────────────────────────────────────────────────────
+
+/** En puntos; equivalen a los márgenes en twips del .docx */
+const MARGENES = { top: 72, bottom: 72, left: 90, right: 72 };
+
+const DORADO = "#c9a84c";
+const DORADO_OSCURO = "#9a7530";
+
+/** Dos fotografías apaisadas por página del anexo */
+const ALTO_IMAGEN = 300;
+
+export function generarPdf(d: DocumentoRecurso): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margins: MARGENES,
+    font: path.join(FUENTES, "tinos-latin-400-normal.woff"),
+    pdfVersion: "1.7",
+    subset: "PDF/A-2b",
+    lang: "es-ES",
+    displayTitle: true,
+    bufferPages: true,
+    info: { Title: d.maqueta.titulo, Author: "RecursApp", Creator: "RecursApp" },
+  });
+  doc.registerFont(REGULAR, path.join(FUENTES, "tinos-latin-400-normal.woff"));
+  doc.registerFont(NEGRITA, path.join(FUENTES, "tinos-latin-700-normal.woff"));
+  doc.registerFont(CURSIVA, path.join(FUENTES, "tinos-latin-400-italic.woff"));
+  doc.registerFont(NEGRITA_CURSIVA, path.join(FUENTES, "tinos-latin-700-italic.woff"));
+
+  const chunks: Buffer[] = [];
+  doc.on("data", (c: Buffer) => chunks.push(c));
+  const terminado = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const ancho = doc.page.width - MARGENES.left - MARGENES.right;
+  const linea = (color: string, grosor: number) => {
+    doc.moveTo(MARGENES.left, doc.y).lineTo(MARGENES.left + ancho, doc.y).lineWidth(grosor).strokeColor(color).stroke();
+  };
+
+  /** Un párrafo con tramos en negrita o cursiva: cada cambio de fuente continúa la misma línea */
+  const escribir = (tramos: Tramo[], size: number, color: string, opciones: PDFKit.Mixins.TextOptions) => {
+    const visibles = tramos.map((t) => ({ ...t, texto: textoPdf(t.texto) })).filter((t) => t.texto);
+    if (visibles.length === 0) return;
+    visibles.forEach((t, i) => {
+      doc.font(fuente(t)).fontSize(size).fillColor(color).text(t.texto, { ...opciones, continued: i < visibles.length - 1 });
+    });
+  };
+
+  // Marcadores del panel del visor, anidados como los encabezados
+  const esquema: PDFKit.PDFOutline[] = [doc.outline];
+  const marcar = (titulo: string, nivel: number) => {
+    const padre = esquema[Math.min(nivel - 1, esquema.length - 1)];
+    esquema.splice(nivel, esquema.length, padre.addItem(textoPdf(titulo)));
+  };
+
+  const { maqueta } = d;
+
+  // Cabecera
+  if (maqueta.bordeDorado) {
+    linea(DORADO, 0.75);
+    doc.moveDown(2);
+  }
+  if (maqueta.destinatario.length) {
+    for (const l of maqueta.destinatario) {
+      doc.font(NEGRITA).fontSize(12).fillColor("#1a1a1a").text(textoPdf(l), { width: ancho });
+    }
+    doc.moveDown(2);
+  }
+  doc.font(NEGRITA).fontSize(16).fillColor("#1a1a1a").text(textoPdf(maqueta.titulo).toUpperCase(), { align: "center" });
+  marcar(maqueta.titulo, 1);
+  if (maqueta.subtitulo) {
+    doc.moveDown(0.5);
+    doc.font(CURSIVA).fontSize(10).fillColor("#888888").text(textoPdf(maqueta.subtitulo), { align: "center" });
+  }
+  doc.moveDown(2.5);
+
+  // Plazo
+  if (d.plazo) {
+    const y = doc.y;
+    const interior = ancho - 24;
+    const fecha = formatFechaLarga(d.plazo.ultimoDia).toUpperCase();
+    const detalle = textoPdf(detallePlazo(d.plazo));
+    const alto = doc.font(NEGRITA).fontSize(12).heightOfString(`ÚLTIMO DÍA PARA PRESENTAR: ${fecha}`, { width: interior }) +
+      doc.font(REGULAR).fontSize(9).heightOfString(detalle, { width: interior }) + 22;
+    doc.rect(MARGENES.left, y, ancho, alto).lineWidth(1.5).fillAndStroke("#faf5e6", DORADO);
+    doc.font(NEGRITA).fontSize(12).fillColor(DORADO_OSCURO)
+      .text("ÚLTIMO DÍA PARA PRESENTAR: ", MARGENES.left + 12, y + 8, { width: interior, align: "center", continued: true })
+      .fillColor("#1a1a1a").text(fecha);
+    doc.moveDown(0.3);
+    doc.font(REGULAR).fontSize(9).fillColor("#555555").text(detalle, { width: interior, align: "center" });
+    doc.x = MARGENES.left;
+    doc.y = y + alto + 30;
+  }
+
+  // Escrito
+  for (const b of bloquesEscrito(d.escrito)) {
+    doc.x = MARGENES.left;
+    switch (b.tipo) {
+      case "espacio":
+        doc.moveDown(0.5);
+        break;
+      case "titulo":
+        escribir(b.tramos.map((t) => ({ ...t, negrita: true })), 16, "#1a1a1a", { width: ancho, align: "center" });
+        doc.moveDown(1);
+        break;
+      case "encabezado":
+        doc.moveDown(b.nivel === 1 ? 1 : 0.7);
+        marcar(b.texto, b.nivel + 1);
+        escribir(
+          b.tramos.map((t) => ({ ...t, negrita: true, cursiva: b.nivel === 3 || t.cursiva })),
+          b.nivel === 1 ? 13 : 12,
+          "#1a1a1a",
+          { width: ancho, lineGap: 3 }
+        );
+        doc.moveDown(0.5);
+        break;
+      case "cita":
+        doc.x = MARGENES.left + 36;
+        escribir(b.tramos.map((t) => ({ ...t, cursiva: true })), 11, "#444444", {
+          width: ancho - 54,
+          align: "justify",
+          lineGap: 3,
+          paragraphGap: 8,
+        });
+        break;
+      case "lista": {
+        const sangria = MARGENES.left + 36 + b.nivel * 18;
+        const y = doc.y;
+        doc.font(REGULAR).fontSize(12).fillColor("#1a1a1a").text(b.marcador!, sangria - 18, y, { width: 18, lineBreak: false });
+        doc.x = sangria;
+        doc.y = y;
+        escribir(b.tramos, 12, "#1a1a1a", { width: MARGENES.left + ancho - sangria, align: "justify", lineGap: 4, paragraphGap: 4 });
+        break;
+      }
+      case "apartado":
+        escribir([{ texto: `${b.marcador} `, negrita: true }, ...b.tramos], 12, "#1a1a1a", {
+          width: ancho,
+          align: "justify",
+          indent: 36,
+          lineGap: 5,
+          paragraphGap: 6,
+        });
+        break;
+      case "parrafo":
+        escribir(b.tramos, 12, "#1a1a1a", { width: ancho, align: "justify", indent: 36, lineGap: 5, paragraphGap: 6 });
+        break;
+    }
+  }
+
+  // Índice de la documentación aportada, con la numeración del prompt
+  const documentos = d.documentos || [];
+  const imagenes = documentos.map(imagenAnexo);
+  if (documentos.length) {
+    doc.x = MARGENES.left;
+    doc.moveDown(1);
+    doc.font(NEGRITA).fontSize(13).fillColor("#1a1a1a").text(TITULO_INDICE, { width: ancho });
+    marcar(TITULO_INDICE, 1);
+    doc.moveDown(0.5);
+    documentos.forEach((p, i) => {
+      doc.font(REGULAR).fontSize(11).fillColor("#1a1a1a")
+        .text(textoPdf(entradaIndice(p, Boolean(imagenes[i]))), { width: ancho, paragraphGap: 4 });
+    });
+  }
+
+  // Anexo: cada imagen con su pie; pdfkit respeta la orientación EXIF de las fotos
+  if (imagenes.some(Boolean)) {
+    doc.addPage();
+    doc.font(NEGRITA).fontSize(14).fillColor("#1a1a1a").text(TITULO_ANEXO, { width: ancho, align: "center" });
+    marcar(TITULO_ANEXO, 1);
+    doc.moveDown(1.5);
+    documentos.forEach((p, i) => {
+      const imagen = imagenes[i];
+      if (!imagen) return;
+      if (doc.y + ALTO_IMAGEN + 40 > doc.page.height - MARGENES.bottom) doc.addPage();
+      marcar(etiquetaDocumento(p.index), 2);
+      // Con x e y iguales al cursor, pdfkit lo baja el alto real de la imagen
+      doc.image(imagen.datos, MARGENES.left, doc.y, { fit: [ancho, ALTO_IMAGEN], align: "center" });
+      doc.y += 6;
+      doc.font(CURSIVA).fontSize(10).fillColor("#555555").text(textoPdf(pieImagen(p)), MARGENES.left, doc.y, { width: ancho, align: "center" });
+      doc.moveDown(1.5);
+    });
+  }
+
+  // Guía de presentación y aviso legal, en página aparte si va detrás del escrito
+  if (d.instructions !== undefined) {
+    if (d.escrito.trim()) doc.addPage();
+    doc.font(NEGRITA).fontSize(14).fillColor(DORADO_OSCURO).text(TITULO_GUIA, { width: ancho });
+    marcar(TITULO_GUIA, 1);
+    doc.moveDown(1.5);
+    for (const line of d.instructions.split("\n")) {
+      const tipo = tipoLineaGuia(line);
+      doc.font(tipo === "paso" ? NEGRITA : REGULAR).fontSize(11)
+        .fillColor(tipo === "aviso" ? "#cc4444" : "#2a2a2a")
+        .text(textoPdf(line).trim() || " ", { width: ancho, paragraphGap: 4 });
+    }
+
+    doc.moveDown(2);
+    linea("#cccccc", 0.5);
+    doc.moveDown(1);
+    doc.font(CURSIVA).fontSize(9).fillColor("#999999").text(textoPdf(AVISO_LEGAL), MARGENES.left, doc.y, { width: ancho, align: "center" });
+  }
+
+  // Cabecera, pie y numeración: se escriben dentro de los márgenes, que hay que anular para que no salte de página
+  const { start, count } = doc.bufferedPageRange();
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i);
+    doc.page.margins.top = 0;
+    doc.page.margins.bottom = 0;
+    if (maqueta.encabezado) {
+      doc.font(REGULAR).fontSize(9).fillColor("#888888")
+        .text(textoPdf(maqueta.encabezado), MARGENES.left, 40, { width: ancho, align: "right" });
+    }
+    const numeracion = [maqueta.pie, `Página ${i - start + 1} de ${count}`].filter(Boolean).join(" · ");
+    doc.font(REGULAR).fontSize(9).fillColor("#888888")
+      .text(textoPdf(numeracion), MARGENES.left, doc.page.height - 45, { width: ancho, align: "center" });
+    doc.page.margins.top = MARGENES.top;
+    doc.page.margins.bottom = MARGENES.bottom;
+  }
+
+  doc.end();
+  return terminado;
+}
@@ -0,0 +1,159 @@
+/**
+ * lib/perfiles.ts
+ *
+ * Perfiles del recurrente guardados en el navegador (varios por dispositivo:
+ * familia, amigos…), validación de la letra de control del DNI/NIE y
+ * sustitución del bloque "DATOS DEL RECURRENTE" que los prompts piden dejar
+ * para rellenar. Sin dependencias de servidor.
+ */
+
+import type { MultaData } from "./multa";
+
+// ─── DNI / NIE ────────────────────────────────────────────────────────────────
+
+const LETRAS_CONTROL = "TRWAGMYFPDXBNJZSQVHLCKE";
+
+export type TipoDocumento = "DNI" | "NIE";
+
+export interface ValidacionDocumento {
+  tipo: TipoDocumento | null;
+  /** Normalizado: sin espacios ni guiones y en mayúsculas */
+  numero: string;
+  valido: boolean;
+  error?: string;
+}
+
+/** NIE: X, Y o Z valen 0, 1 y 2 y la letra se calcula como en el DNI */
+export function validarDocumento(valor: string): ValidacionDocumento {
+  const numero = valor.toUpperCase().replace(/[\s.\-]/g, "");
+  const m = numero.match(/^([XYZ]?)(\d{7,8})([A-Z])$/);
+  if (!m) return { tipo: null, numero, valido: false, error: "Formato no válido: 8 cifras y letra (DNI) o X/Y/Z, 7 cifras y letra (NIE)" };
+  const [, prefijo, cifras, letra] = m;
+  const tipo: TipoDocumento = prefijo ? "NIE" : "DNI";
+  if (cifras.length !== (prefijo ? 7 : 8)) {
+    return { tipo, numero, valido: false, error: `Un ${tipo} lleva ${prefijo ? 7 : 8} cifras` };
+  }
+  const esperada = LETRAS_CONTROL[parseInt(`${prefijo ? "XYZ".indexOf(prefijo) : ""}${cifras}`, 10) % 23];
+  if (letra !== esperada) return { tipo, numero, valido: false, error: `La letra de control no corresponde: debería ser ${esperada}` };
+  return { tipo, numero, valido: true };
+}
+
+// ─── Perfiles ─────────────────────────────────────────────────────────────────
+
+export interface DatosRecurrente {
+  nombre: string;
+  dni: string;
+  domicilio: string;
+  telefono: string;
+  email: string;
+}
+
+export interface Perfil extends DatosRecurrente {
+  id: string;
+  /** Cómo aparece en el selector: "Yo", "Mamá", "Furgoneta empresa"… */
+  etiqueta: string;
+}
+
+export const emptyPerfil = (): Perfil => ({
+  id: `perfil-${Date.now()}`,
+  etiqueta: "",
+  nombre: "",
+  dni: "",
+  domicilio: "",
+  telefono: "",
+  email: "",
+});
+
+/** Errores que impiden guardar el perfil; vacío si es válido */
+export function validarPerfil(p: Perfil): string[] {
+  const errores: string[] = [];
+  if (!p.etiqueta.trim()) errores.push("Ponle un nombre al perfil");
+  if (!p.nombre.trim()) errores.push("Falta el nombre completo");
+  if (p.dni.trim()) {
+    const doc = validarDocumento(p.dni);
+    if (!doc.valido) errores.push(`DNI/NIE: ${doc.error}`);
+  }
+  if (p.email.trim() && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(p.email.trim())) errores.push("El email no es válido");
+  return errores;
+}
+
+const STORAGE_KEY = "recursapp:perfiles";
+
+export function cargarPerfiles(): Perfil[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const guardados = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(guardados) ? guardados : [];
+  } catch {
+    return [];
+  }
+}
+
+export function guardarPerfiles(perfiles: Perfil[]): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(perfiles));
+}
+
+/** Sin perfil se usan los datos del denunciado, y su DNI solo si la letra cuadra */
+export function datosRecurrente(perfil: DatosRecurrente | null | undefined, multa: MultaData | null | undefined): DatosRecurrente {
+  if (perfil) {
+    const { nombre, dni, domicilio, telefono, email } = perfil;
+    return { nombre, dni: dni ? validarDocumento(dni).numero : "", domicilio, telefono, email };
+  }
+  const d = multa?.denunciado;
+  const doc = d?.dni ? validarDocumento(d.dni) : null;
+  return { nombre: d?.nombre || "", dni: doc?.valido ? doc.numero : "", domicilio: d?.domicilio || "", telefono: "", email: "" };
+}
+
+// ─── Sustitución en el escrito ────────────────────────────────────────────────
+
+const HUECO = "____________";
+
+/** Cabecera del bloque, con o sin negritas markdown */
+const CABECERA = /^\s*\**\s*DATOS (?:DEL|DE LA) (?:RECURRENTE|INTERESAD[OA]|DENUNCIAD[OA])\b/i;
+
+/** Línea de relleno: etiqueta de dato personal o hueco (____, [NOMBRE], XXXXX, …) */
+const LINEA_RELLENO = /\b(?:NOMBRE|APELLIDOS|DNI|NIE|NIF|DOMICILIO|DIRECCI[OÓ]N|TEL[EÉ]FONO|E-?MAIL|CORREO)\b|_{3,}|\[[^\]]*\]|X{4,}|…{2,}|\.{4,}/i;
+
+export function bloqueRecurrente(d: DatosRecurrente): string[] {
+  const o = (v: string) => v.trim() || HUECO;
+  return [
+    `NOMBRE: ${o(d.nombre)}`,
+    `DNI/NIE: ${o(d.dni)}`,
+    `DOMICILIO: ${o(d.domicilio)}`,
+    `TELÉFONO: ${o(d.telefono)}  EMAIL: ${o(d.email)}`,
+  ];
+}
+
+/**
+ * Sustituye las líneas de relleno que siguen a la cabecera "DATOS DEL
+ * RECURRENTE" (o del interesado) por los datos, y completa la firma y los
+ * marcadores sueltos ([NOMBRE], [DNI]…) del resto del escrito. Si el
+ * escrito no tiene cabecera, deja el cuerpo como está salvo esos marcadores.
+ */
+export function rellenarRecurrente(escrito: string, d: DatosRecurrente): string {
+  const lineas = escrito.split("\n");
+  const inicio = lineas.findIndex((l) => CABECERA.test(l));
+  if (inicio >= 0) {
+    // Las líneas en blanco tras la cabecera o entre los huecos no cortan el bloque
+    let primera = inicio + 1;
+    while (primera < lineas.length && !lineas[primera].trim()) primera++;
+    let fin = primera;
+    for (let i = primera; i < lineas.length; i++) {
+      if (!lineas[i].trim()) continue;
+      // Un párrafo largo ya es el cuerpo del escrito aunque mencione el DNI
+      if (lineas[i].length > 160 || !LINEA_RELLENO.test(lineas[i])) break;
+      fin = i + 1;
+    }
+    if (fin > primera) lineas.splice(primera, fin - primera, ...bloqueRecurrente(d));
+    else lineas.splice(inicio + 1, 0, ...bloqueRecurrente(d));
+  }
+  let texto = lineas.join("\n");
+  if (d.nombre) {
+    texto = texto
+      .replace(/\[(?:NOMBRE(?: Y APELLIDOS| COMPLETO)?|APELLIDOS Y NOMBRE)\]/gi, d.nombre)
+      .replace(/^(\s*Fdo\.?:?\s*)(?:_{3,}|\[[^\]]*\]|X{4,})\s*$/gim, `$1${d.nombre}`);
+  }
+  if (d.dni) texto = texto.replace(/\[(?:DNI|NIE|NIF|DNI\/NIE)\]/gi, d.dni);
+  if (d.domicilio) texto = texto.replace(/\[(?:DOMICILIO|DIRECCI[OÓ]N)\]/gi, d.domicilio);
+  return texto;
+}
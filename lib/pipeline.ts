@@ -0,0 +1,58 @@
+/**
+ * lib/pipeline.ts
+ *
+ * Fases 2 y 3 como unidades independientes: las usan tanto /api/analyze
+ * (pipeline completo) como /api/draft y /api/merge (reintentos sueltos).
+ * Todo escrito que sale de aquí lleva sus citas legales ya verificadas.
+ */
+
+import { AgentDefinition } from "./agents";
+import { revisarCitas } from "./citas";
+import { callAgent, callMasterAgent } from "./llm";
+import type { AgentResult, MergeModel, MergeResponse } from "./contracts";
+import type { TipoEscrito } from "./tramite";
+
+export function agentMeta(agentDef: AgentDefinition) {
+  return { agentId: agentDef.id, agentName: agentDef.name, label: agentDef.label, color: agentDef.color };
+}
+
+export async function draftWithAgent(
+  agentDef: AgentDefinition,
+  apiKeys: Record<string, string>,
+  userPrompt: string,
+  escrito: TipoEscrito,
+  onDelta?: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<AgentResult> {
+  const key = apiKeys[agentDef.provider];
+  if (!key) return { ...agentMeta(agentDef), status: "skipped", content: "", error: "Sin API key configurada" };
+
+  const start = Date.now();
+  const result = await callAgent({ ...agentDef, apiKey: key, enabled: true }, userPrompt, escrito, onDelta, signal);
+  return {
+    ...agentMeta(agentDef),
+    status: result.error ? "error" : "done",
+    content: result.content,
+    error: result.error,
+    latencyMs: Date.now() - start,
+    citas: result.content ? revisarCitas(result.content) : undefined,
+  };
+}
+
+export async function mergeDrafts(
+  apiKeys: Record<string, string>,
+  drafts: { agentName: string; content: string }[],
+  escrito: TipoEscrito,
+  model?: MergeModel,
+  onDelta?: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<MergeResponse> {
+  const start = Date.now();
+  const result = await callMasterAgent(apiKeys, drafts, escrito, onDelta, model ? [model] : undefined, signal);
+  return {
+    masterRecurso: result.content,
+    masterError: result.error,
+    masterCitas: result.content ? revisarCitas(result.content) : undefined,
+    latencyMs: Date.now() - start,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * lib/plantillas.ts
+ *
+ * Plantillas del documento descargable (data/plantillas.json): cabecera de
+ * página, bloque del destinatario ("AL SR. JEFE PROVINCIAL DE TRÁFICO
+ * DE…"), pie, y si llevan recuadro del plazo y guía de presentación. Se
+ * elige sola según el organismo detectado y el tipo de escrito, y el
+ * usuario puede cambiarla en cada caso. Sin dependencias de servidor.
+ */
+
+import registro from "../data/plantillas.json";
+import type { MultaData } from "./multa";
+import { Organismo, TipoOrganismo, buscarOrganismo } from "./organismos";
+import type { TipoEscrito } from "./tramite";
+
+export interface CondicionesPlantilla {
+  /** Ids de data/organismos.json */
+  organismos?: string[];
+  tipos?: TipoOrganismo[];
+  escritos?: TipoEscrito[];
+}
+
+/**
+ * Los textos admiten {titulo}, {fecha}, {organismo}, {lugar}, {direccion},
+ * {expediente} y {matricula}; en mayúsculas ({LUGAR}) el valor sale en
+ * mayúsculas.
+ */
+export interface PlantillaDocumento {
+  id: string;
+  nombre: string;
+  descripcion: string;
+  /** Sin condiciones, la plantilla solo se usa si el usuario la elige */
+  aplica?: CondicionesPlantilla;
+  /** Cabecera de todas las páginas; "" sin cabecera */
+  encabezado: string;
+  /** Líneas antes del título */
+  destinatario: string[];
+  titulo: string;
+  subtitulo: string;
+  bordeDorado: boolean;
+  recuadroPlazo: boolean;
+  /** Pie de todas las páginas, junto a la numeración */
+  pie: string;
+  /** Guía de presentación y aviso legal en una página aparte al final */
+  guia: boolean;
+}
+
+interface RegistroPlantillas {
+  version: number;
+  actualizado: string;
+  /** De la más específica a la más genérica: gana la primera que coincide */
+  plantillas: PlantillaDocumento[];
+  /** Id de la que se usa cuando ninguna coincide */
+  porDefecto: string;
+}
+
+const REGISTRO = registro as RegistroPlantillas;
+
+export const VERSION_PLANTILLAS = `v${REGISTRO.version} (${REGISTRO.actualizado})`;
+
+export const PLANTILLAS = REGISTRO.plantillas;
+
+const POR_DEFECTO = PLANTILLAS.find((p) => p.id === REGISTRO.porDefecto)!;
+
+export const plantillaPorId = (id: string) => PLANTILLAS.find((p) => p.id === id) || null;
+
+// ─── Elección ─────────────────────────────────────────────────────────────────
+
+function coincide(condiciones: CondicionesPlantilla, organismo: Organismo, escrito?: TipoEscrito): boolean {
+  return (
+    (!condiciones.organismos || condiciones.organismos.includes(organismo.id)) &&
+    (!condiciones.tipos || condiciones.tipos.includes(organismo.tipo)) &&
+    (!condiciones.escritos || (escrito !== undefined && condiciones.escritos.includes(escrito)))
+  );
+}
+
+export function elegirPlantilla(multa: MultaData, escrito?: TipoEscrito): PlantillaDocumento {
+  const { organismo } = buscarOrganismo(multa);
+  return PLANTILLAS.find((p) => p.aplica && coincide(p.aplica, organismo, escrito)) || POR_DEFECTO;
+}
+
+// ─── Maqueta ──────────────────────────────────────────────────────────────────
+
+/** La plantilla con los datos del caso ya puestos */
+export interface MaquetaDocumento {
+  encabezado: string;
+  destinatario: string[];
+  titulo: string;
+  subtitulo: string;
+  bordeDorado: boolean;
+  pie: string;
+}
+
+const HUECO = "________________";
+
+/** "Jefatura Provincial de Tráfico de Sevilla" → "Sevilla"; "Ajuntament de València" → "València" */
+const LUGAR = /(?:tr[aá]fico|ayuntamiento|ajuntament|concello|udala|ayto\.?)\s+d(?:e\s+|')([^,.\n(—]+)/i;
+
+function valoresCaso(multa: MultaData, titulo: string, fecha: string): Record<string, string> {
+  const { organismo } = buscarOrganismo(multa);
+  const lugar = organismo.nombre.match(LUGAR) || multa.organismo.match(LUGAR);
+  return {
+    titulo,
+    fecha,
+    organismo: organismo.id === "ayuntamiento" || organismo.id === "otro" ? multa.organismo.trim() : organismo.nombre,
+    lugar: lugar ? lugar[1].trim() : "",
+    direccion: multa.direccionOrganismo.trim() || organismo.direccionPostal || "",
+    expediente: multa.expediente.trim(),
+    matricula: multa.matricula.trim(),
+  };
+}
+
+const vacio = (valores: Record<string, string>, clave: string) => valores[clave.toLowerCase()] === "";
+
+/**
+ * En la cabecera y el pie, un tramo (separado por " · ") con un dato que
+ * falta desaparece. En el destinatario solo desaparece la línea que es
+ * únicamente ese dato; dentro de una frase queda un hueco para rellenar.
+ */
+function rellenar(texto: string, valores: Record<string, string>, huecos: boolean): string {
+  return texto
+    .split(" · ")
+    .filter((tramo) => {
+      const claves = Array.from(tramo.matchAll(/\{(\w+)\}/g), (m) => m[1]);
+      const solo = /^\{\w+\}$/.test(tramo.trim());
+      return !claves.some((c) => vacio(valores, c)) || (huecos && !solo);
+    })
+    .map((tramo) =>
+      tramo.replace(/\{(\w+)\}/g, (marca, clave: string) => {
+        if (!Object.keys(valores).includes(clave.toLowerCase())) return marca;
+        const valor = valores[clave.toLowerCase()] || HUECO;
+        return clave === clave.toUpperCase() ? valor.toUpperCase() : valor;
+      })
+    )
+    .join(" · ");
+}
+
+export function componerMaqueta(plantilla: PlantillaDocumento, multa: MultaData, titulo: string, fecha: string): MaquetaDocumento {
+  const valores = valoresCaso(multa, titulo, fecha);
+  return {
+    encabezado: rellenar(plantilla.encabezado, valores, false),
+    destinatario: plantilla.destinatario.map((l) => rellenar(l, valores, true)).filter(Boolean),
+    titulo: rellenar(plantilla.titulo, valores, true),
+    subtitulo: rellenar(plantilla.subtitulo, valores, false),
+    bordeDorado: plantilla.bordeDorado,
+    pie: rellenar(plantilla.pie, valores, false),
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * lib/plazos.ts
+ *
+ * Cómputo del último día para recurrir (art. 30 Ley 39/2015): los días son
+ * hábiles salvo que la norma diga naturales, los meses se cuentan de fecha
+ * a fecha y un vencimiento en día inhábil se prorroga al siguiente hábil.
+ * Sin dependencias de servidor: la UI recalcula al cambiar los datos.
+ */
+
+// ─── Procedimientos ───────────────────────────────────────────────────────────
+
+export type UnidadPlazo = "habiles" | "naturales" | "meses";
+
+export type Procedimiento = "alegaciones_trafico" | "alegaciones" | "reposicion" | "alzada" | "apremio" | "pronto_pago";
+
+export interface ReglaPlazo {
+  label: string;
+  cantidad: number;
+  unidad: UnidadPlazo;
+  norma: string;
+}
+
+export const PROCEDIMIENTOS: Record<Procedimiento, ReglaPlazo> = {
+  alegaciones_trafico: { label: "Alegaciones (tráfico)", cantidad: 20, unidad: "naturales", norma: "art. 95 LSV" },
+  alegaciones: { label: "Alegaciones (procedimiento general)", cantidad: 10, unidad: "habiles", norma: "art. 64.2.f Ley 39/2015" },
+  reposicion: { label: "Recurso de reposición", cantidad: 1, unidad: "meses", norma: "art. 124 Ley 39/2015" },
+  alzada: { label: "Recurso de alzada", cantidad: 1, unidad: "meses", norma: "art. 122 Ley 39/2015" },
+  apremio: { label: "Recurso contra providencia de apremio", cantidad: 1, unidad: "meses", norma: "art. 223 LGT" },
+  pronto_pago: { label: "Pago con descuento del 50%", cantidad: 20, unidad: "naturales", norma: "art. 94 LSV" },
+};
+
+export function describirRegla(r: ReglaPlazo): string {
+  if (r.unidad === "meses") return `${r.cantidad} ${r.cantidad === 1 ? "mes" : "meses"}`;
+  return `${r.cantidad} días ${r.unidad === "habiles" ? "hábiles" : "naturales"}`;
+}
+
+// ─── Calendario ───────────────────────────────────────────────────────────────
+
+const NACIONALES = ["01-01", "01-06", "05-01", "08-15", "10-12", "11-01", "12-06", "12-08", "12-25"];
+
+interface CalendarioAutonomico {
+  nombre: string;
+  fijos: string[];
+  juevesSanto?: boolean;
+  lunesPascua?: boolean;
+}
+
+/**
+ * Festivos autonómicos que se repiten cada año. Los que cambian (traslados
+ * de domingo, fiestas locales) se añaden caso a caso en festivosLocales.
+ */
+export const COMUNIDADES: Record<string, CalendarioAutonomico> = {
+  AN: { nombre: "Andalucía", fijos: ["02-28"], juevesSanto: true },
+  AR: { nombre: "Aragón", fijos: ["04-23"], juevesSanto: true },
+  AS: { nombre: "Asturias", fijos: ["09-08"], juevesSanto: true },
+  IB: { nombre: "Illes Balears", fijos: ["03-01"], juevesSanto: true },
+  CN: { nombre: "Canarias", fijos: ["05-30"], juevesSanto: true },
+  CB: { nombre: "Cantabria", fijos: ["07-28", "09-15"], juevesSanto: true },
+  CL: { nombre: "Castilla y León", fijos: ["04-23"], juevesSanto: true },
+  CM: { nombre: "Castilla-La Mancha", fijos: ["05-31"], juevesSanto: true },
+  CT: { nombre: "Cataluña", fijos: ["06-24", "09-11", "12-26"], lunesPascua: true },
+  VC: { nombre: "Comunitat Valenciana", fijos: ["03-19", "10-09"], lunesPascua: true },
+  EX: { nombre: "Extremadura", fijos: ["09-08"], juevesSanto: true },
+  GA: { nombre: "Galicia", fijos: ["05-17", "07-25"], juevesSanto: true },
+  MD: { nombre: "Comunidad de Madrid", fijos: ["05-02"], juevesSanto: true },
+  MC: { nombre: "Región de Murcia", fijos: ["06-09"], juevesSanto: true },
+  NC: { nombre: "Navarra", fijos: ["12-03"], juevesSanto: true, lunesPascua: true },
+  PV: { nombre: "País Vasco", fijos: [], juevesSanto: true, lunesPascua: true },
+  RI: { nombre: "La Rioja", fijos: ["06-09"], juevesSanto: true },
+};
+
+/** Domingo de Pascua (algoritmo de Meeus/Jones/Butcher), en UTC */
+function pascua(year: number): Date {
+  const a = year % 19, b = Math.floor(year / 100), c = year % 100;
+  const d = Math.floor(b / 4), e = b % 4, f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3), h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4), k = c % 4, l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+const toIso = (d: Date) => d.toISOString().slice(0, 10);
+const fromIso = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const addDays = (d: Date, n: number) => new Date(d.getTime() + n * 86_400_000);
+
+/** De fecha a fecha; si el mes de destino no tiene ese día, el último del mes. n puede ser negativo */
+export function sumarMeses(iso: string, n: number): string {
+  const d = fromIso(iso);
+  const y = d.getUTCFullYear(), m = d.getUTCMonth() + n;
+  const ultimoDelMes = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return toIso(new Date(Date.UTC(y, m, Math.min(d.getUTCDate(), ultimoDelMes))));
+}
+
+/** Días naturales de a hasta b (negativo si b es anterior) */
+export const diasEntre = (a: string, b: string) => Math.round((fromIso(b).getTime() - fromIso(a).getTime()) / 86_400_000);
+
+export interface ConfigPlazo {
+  procedimiento: Procedimiento;
+  /** Clave de COMUNIDADES; vacío = solo festivos nacionales */
+  comunidad?: string;
+  /** Festivos locales en ISO (AAAA-MM-DD) */
+  festivosLocales?: string[];
+}
+
+export function festivosDelAno(year: number, comunidad?: string, locales: string[] = []): Set<string> {
+  const set = new Set(NACIONALES.map((md) => `${year}-${md}`));
+  const easter = pascua(year);
+  set.add(toIso(addDays(easter, -2))); // Viernes Santo
+  const ca = comunidad ? COMUNIDADES[comunidad] : undefined;
+  if (ca) {
+    ca.fijos.forEach((md) => set.add(`${year}-${md}`));
+    if (ca.juevesSanto) set.add(toIso(addDays(easter, -3)));
+    if (ca.lunesPascua) set.add(toIso(addDays(easter, 1)));
+  }
+  locales.filter((iso) => iso.startsWith(`${year}-`)).forEach((iso) => set.add(iso));
+  return set;
+}
+
+function crearCalendario(comunidad?: string, locales: string[] = []) {
+  const cache = new Map<number, Set<string>>();
+  return (d: Date): boolean => {
+    const wd = d.getUTCDay();
+    if (wd === 0 || wd === 6) return false;
+    const y = d.getUTCFullYear();
+    if (!cache.has(y)) cache.set(y, festivosDelAno(y, comunidad, locales));
+    return !cache.get(y)!.has(toIso(d));
+  };
+}
+
+// ─── Cómputo ──────────────────────────────────────────────────────────────────
+
+export interface ResultadoPlazo {
+  procedimiento: Procedimiento;
+  label: string;
+  descripcion: string;
+  norma: string;
+  fechaNotificacion: string;
+  /** Último día para presentar, ISO */
+  ultimoDia: string;
+  /** true si el vencimiento caía en inhábil y se ha pasado al siguiente hábil */
+  prorrogado: boolean;
+  diasRestantes: number;
+  vencido: boolean;
+}
+
+export const hoyIso = () => {
+  const now = new Date();
+  return toIso(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+};
+
+/** null si falta la fecha de notificación: sin ella no hay plazo que calcular */
+export function calcularPlazo(fechaNotificacion: string, config: ConfigPlazo, hoy = hoyIso()): ResultadoPlazo | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(fechaNotificacion)) return null;
+  const regla = PROCEDIMIENTOS[config.procedimiento];
+  const esHabil = crearCalendario(config.comunidad, config.festivosLocales);
+  const notif = fromIso(fechaNotificacion);
+
+  let fin: Date;
+  if (regla.unidad === "habiles") {
+    fin = notif;
+    for (let n = 0; n < regla.cantidad; ) {
+      fin = addDays(fin, 1);
+      if (esHabil(fin)) n++;
+    }
+  } else if (regla.unidad === "naturales") {
+    fin = addDays(notif, regla.cantidad);
+  } else {
+    fin = fromIso(sumarMeses(fechaNotificacion, regla.cantidad));
+  }
+
+  let prorrogado = false;
+  while (!esHabil(fin)) {
+    fin = addDays(fin, 1);
+    prorrogado = true;
+  }
+
+  const diasRestantes = diasEntre(hoy, toIso(fin));
+  return {
+    procedimiento: config.procedimiento,
+    label: regla.label,
+    descripcion: describirRegla(regla),
+    norma: regla.norma,
+    fechaNotificacion,
+    ultimoDia: toIso(fin),
+    prorrogado,
+    diasRestantes,
+    vencido: diasRestantes < 0,
+  };
+}
+
+/** "martes, 18 de noviembre de 2026" */
+export function formatFechaLarga(iso: string): string {
+  return fromIso(iso).toLocaleDateString("es-ES", {
+    weekday: "long", day: "numeric", month: "long", year: "numeric", timeZone: "UTC",
+  });
+}
@@ -0,0 +1,169 @@
+/**
+ * lib/prescripcion.ts
+ *
+ * Comprobación determinista de prescripción y caducidad (art. 112 LSV) con
+ * las fechas de la multa. Solo lo que sale "favorable" se presenta al
+ * modelo como argumento verificado; lo dudoso va como algo a comprobar y lo
+ * desfavorable, como argumento que no debe plantearse. Sin dependencias de
+ * servidor: la UI recalcula al editar los datos.
+ */
+
+import { analizarVelocidad } from "./cinemometro";
+import { gravedadCatalogo } from "./infracciones";
+import { Gravedad, MultaData, formatDateEs } from "./multa";
+import { diasEntre, hoyIso, sumarMeses } from "./plazos";
+import type { FaseProcedimiento } from "./tramite";
+
+export type TipoHallazgo = "prescripcion" | "caducidad" | "prescripcion_sancion";
+
+/** sin_datos: faltan fechas para calcular; indeterminado: depende de una fecha que no consta */
+export type EstadoHallazgo = "favorable" | "desfavorable" | "indeterminado" | "sin_datos";
+
+export interface Hallazgo {
+  tipo: TipoHallazgo;
+  estado: EstadoHallazgo;
+  titulo: string;
+  detalle: string;
+  norma: string;
+}
+
+export interface ComprobacionPrescripcion {
+  /** Gravedad usada en el cálculo: la de la multa o la deducida del importe y los puntos */
+  gravedad: Gravedad;
+  gravedadDeducida: boolean;
+  hallazgos: Hallazgo[];
+}
+
+const MESES_PRESCRIPCION: Record<Exclude<Gravedad, "">, number> = { leve: 3, grave: 6, "muy grave": 6 };
+const MESES_CADUCIDAD = 12;
+const MESES_PRESCRIPCION_SANCION = 48;
+
+/**
+ * Los excesos de velocidad son siempre graves o muy graves, aunque el tramo
+ * más bajo sea de 100 € (art. 76.a LSV); los puntos solo se retiran por
+ * graves o muy graves; después manda el catálogo de infracciones y, en
+ * último término, el importe: las leves llegan hasta 100 € (art. 80).
+ * Grave y muy grave prescriben igual: basta con distinguir leve del resto.
+ */
+function deducirGravedad(multa: MultaData): Gravedad {
+  if (multa.puntos || analizarVelocidad(multa)) return "grave";
+  const catalogo = gravedadCatalogo(multa);
+  if (catalogo) return catalogo;
+  if (multa.importe === null || multa.importe <= 0) return "";
+  return multa.importe <= 100 ? "leve" : "grave";
+}
+
+const f = formatDateEs;
+
+// ─── Comprobaciones ───────────────────────────────────────────────────────────
+
+/** Art. 112.1 LSV: se interrumpe con la notificación de la denuncia */
+function prescripcionInfraccion(multa: MultaData, gravedad: Gravedad, fase: FaseProcedimiento): Hallazgo {
+  const base = { tipo: "prescripcion" as const, titulo: "Prescripción de la infracción", norma: "art. 112.1 LSV" };
+  if (!multa.fechaInfraccion || !multa.fechaNotificacion) {
+    return { ...base, estado: "sin_datos", detalle: "Faltan la fecha de la infracción o la de notificación." };
+  }
+  if (!gravedad) {
+    return { ...base, estado: "sin_datos", detalle: "No consta la gravedad (leves: 3 meses; graves y muy graves: 6 meses)." };
+  }
+  const meses = MESES_PRESCRIPCION[gravedad];
+  const limite = sumarMeses(multa.fechaInfraccion, meses);
+  const plazo = `infracción ${gravedad} del ${f(multa.fechaInfraccion)}, prescribe a los ${meses} meses (${f(limite)})`;
+
+  if (multa.fechaNotificacion <= limite) {
+    return { ...base, estado: "desfavorable", detalle: `Se notificó el ${f(multa.fechaNotificacion)}, dentro del plazo: ${plazo}.` };
+  }
+  const retraso = diasEntre(limite, multa.fechaNotificacion);
+  if (fase === "denuncia") {
+    return {
+      ...base,
+      estado: "favorable",
+      detalle: `La denuncia se notificó el ${f(multa.fechaNotificacion)}, ${retraso} días después de vencer el plazo: ${plazo}. No consta actuación anterior con conocimiento del denunciado que lo interrumpiera.`,
+    };
+  }
+  return {
+    ...base,
+    estado: "indeterminado",
+    detalle: `La notificación que consta (${f(multa.fechaNotificacion)}) es posterior al límite, pero no es la de la denuncia: ${plazo}. Si la denuncia no se notificó antes del ${f(limite)}, la infracción prescribió.`,
+  };
+}
+
+/** Art. 112.3 LSV: un año desde la iniciación sin resolución notificada */
+function caducidad(multa: MultaData, fase: FaseProcedimiento, hoy: string): Hallazgo {
+  const base = { tipo: "caducidad" as const, titulo: "Caducidad del procedimiento", norma: "art. 112.3 LSV" };
+
+  if (fase === "denuncia") {
+    if (!multa.fechaNotificacion) {
+      return { ...base, estado: "sin_datos", detalle: "Falta la fecha de notificación de la denuncia." };
+    }
+    const limite = sumarMeses(multa.fechaNotificacion, MESES_CADUCIDAD);
+    if (hoy > limite) {
+      return {
+        ...base,
+        estado: "favorable",
+        detalle: `Desde la notificación de la denuncia (${f(multa.fechaNotificacion)}) ha pasado más de un año sin resolución notificada: el procedimiento caducó el ${f(limite)}.`,
+      };
+    }
+    return { ...base, estado: "desfavorable", detalle: `El procedimiento caduca el ${f(limite)} si no se notifica antes la resolución.` };
+  }
+
+  // Fase de resolución: la notificación que consta es la de la resolución y el
+  // inicio no consta; la fecha de la infracción es la cota más temprana posible
+  const fin = multa.fechaNotificacion || multa.fechaResolucion;
+  if (!multa.fechaInfraccion || !fin) {
+    return { ...base, estado: "sin_datos", detalle: "Faltan la fecha de la infracción o la de la resolución." };
+  }
+  if (fin <= sumarMeses(multa.fechaInfraccion, MESES_CADUCIDAD)) {
+    return { ...base, estado: "desfavorable", detalle: `Entre la infracción (${f(multa.fechaInfraccion)}) y la resolución (${f(fin)}) no hay un año.` };
+  }
+  return {
+    ...base,
+    estado: "indeterminado",
+    detalle: `Entre la infracción (${f(multa.fechaInfraccion)}) y la resolución (${f(fin)}) hay más de un año. Si la denuncia se notificó antes del ${f(sumarMeses(fin, -MESES_CADUCIDAD))}, el procedimiento caducó.`,
+  };
+}
+
+/** Art. 112.2 LSV: cuatro años desde la firmeza, que es posterior a la resolución */
+function prescripcionSancion(multa: MultaData): Hallazgo {
+  const base = { tipo: "prescripcion_sancion" as const, titulo: "Prescripción de la sanción", norma: "art. 112.2 LSV" };
+  if (!multa.fechaResolucion || !multa.fechaNotificacion) {
+    return { ...base, estado: "sin_datos", detalle: "Faltan la fecha de la resolución o la de notificación de la providencia." };
+  }
+  if (multa.fechaNotificacion <= sumarMeses(multa.fechaResolucion, MESES_PRESCRIPCION_SANCION)) {
+    return { ...base, estado: "desfavorable", detalle: `La providencia (${f(multa.fechaNotificacion)}) llega antes de cuatro años desde la resolución (${f(multa.fechaResolucion)}).` };
+  }
+  return {
+    ...base,
+    estado: "indeterminado",
+    detalle: `Han pasado más de cuatro años desde la resolución (${f(multa.fechaResolucion)}). Si la sanción era firme antes del ${f(sumarMeses(multa.fechaNotificacion, -MESES_PRESCRIPCION_SANCION))} y no hubo actuaciones de cobro notificadas, la sanción prescribió.`,
+  };
+}
+
+export function comprobarPrescripcion(multa: MultaData, fase: FaseProcedimiento, hoy = hoyIso()): ComprobacionPrescripcion {
+  const gravedad = multa.gravedad || deducirGravedad(multa);
+  const hallazgos =
+    fase === "apremio"
+      ? [prescripcionSancion(multa)]
+      : [prescripcionInfraccion(multa, gravedad, fase), caducidad(multa, fase, hoy)];
+  return { gravedad, gravedadDeducida: !multa.gravedad && !!gravedad, hallazgos };
+}
+
+// ─── Bloque para el prompt ────────────────────────────────────────────────────
+
+/** "" si no hay nada que decir al modelo (faltan todas las fechas) */
+export function formatPrescripcion({ hallazgos }: ComprobacionPrescripcion): string {
+  const lineas = hallazgos.map((h) => {
+    if (h.estado === "favorable") {
+      return `ARGUMENTO VERIFICADO — ${h.titulo} (${h.norma}): ${h.detalle}\nPlantéalo como primer motivo del escrito: es el más sólido.`;
+    }
+    if (h.estado === "desfavorable") {
+      return `NO ALEGUES ${h.titulo.toLowerCase()}: ${h.detalle}`;
+    }
+    if (h.estado === "indeterminado") {
+      return `A COMPROBAR — ${h.titulo} (${h.norma}): ${h.detalle}\nSi lo mencionas, hazlo de forma condicional y pide que se acredite la fecha de notificación.`;
+    }
+    return "";
+  });
+  const texto = lineas.filter(Boolean).join("\n\n");
+  return texto ? `=== PRESCRIPCIÓN Y CADUCIDAD (cálculo verificado con las fechas de la multa) ===\n${texto}\n\n` : "";
+}
@@ -0,0 +1,334 @@
+/**
+ * lib/providers.ts
+ *
+ * Registro de proveedores LLM. Cada proveedor implementa la misma interfaz
+ * (chat, visión y normalización de errores) y se registra por nombre, de modo
+ * que los agentes redactores, el parseo y /api/test-agent usan el mismo código.
+ */
+
+import { PROVIDERS, ProviderInfo } from "./agents";
+import { readSSE } from "./sse";
+
+export interface ChatRequest {
+  apiKey: string;
+  model: string;
+  systemPrompt?: string;
+  userPrompt: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Solo para proveedores OpenAI-compatibles genéricos */
+  baseUrl?: string;
+  /** Pide salida JSON (response_format / responseMimeType) si el proveedor lo admite */
+  json?: boolean;
+  /** Si se indica, la respuesta se pide en streaming y se notifica cada fragmento */
+  onDelta?: (delta: string) => void;
+  /** Corta la petición al proveedor (p. ej. si el cliente cierra el stream de /api/analyze) */
+  signal?: AbortSignal;
+}
+
+export interface VisionRequest extends ChatRequest {
+  image: { base64: string; mimeType: string };
+}
+
+/** id, label y envKey viven en lib/agents.ts para que las páginas cliente no importen este módulo */
+export interface LLMProvider extends ProviderInfo {
+  chat(req: ChatRequest): Promise<string>;
+  vision?(req: VisionRequest): Promise<string>;
+}
+
+/**
+ * code: "http" → la API respondió con error HTTP; "api" → HTTP 200 con error en el body;
+ * "empty" → la llamada funcionó pero no devolvió texto; "unknown" → proveedor no registrado.
+ */
+export class ProviderError extends Error {
+  constructor(
+    public provider: string,
+    public model: string,
+    message: string,
+    public code: "http" | "api" | "empty" | "unknown",
+    public status?: number
+  ) {
+    super(`${provider} [${model}]${status ? ` ${status}` : ""}: ${message}`);
+    this.name = "ProviderError";
+  }
+}
+
+// ─── Normalización de errores ─────────────────────────────────────────────────
+// Cada API devuelve el error con una forma distinta:
+//   OpenAI / OpenRouter / Gemini → { error: { message } }
+//   Mistral                      → { message } o { error: { message } }
+
+export function extractErrorMessage(data: unknown, status: number): string {
+  const d = data as Record<string, unknown> | null;
+  const errObj = d?.error as Record<string, unknown> | string | undefined;
+  if (typeof errObj === "string") return errObj;
+  if (typeof errObj?.message === "string") return errObj.message;
+  if (typeof d?.message === "string") return d.message;
+  if (typeof d?.detail === "string") return d.detail;
+  return `HTTP ${status}`;
+}
+
+async function readJson(res: Response): Promise<Record<string, unknown> | null> {
+  try {
+    return await res.json();
+  } catch {
+    return null;
+  }
+}
+
+// ─── OpenAI-compatible (base para Mistral, OpenRouter, Groq, OpenAI…) ─────────
+
+type OpenAIContent =
+  | string
+  | ({ type: "text"; text: string } | { type: "image_url"; image_url: { url: string } })[];
+
+interface OpenAICompatibleOptions extends ProviderInfo {
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  /** Embebe el system prompt en el mensaje de usuario (modelos :free que ignoran system) */
+  inlineSystemPrompt?: boolean;
+}
+
+export function createOpenAICompatibleProvider(opts: OpenAICompatibleOptions): LLMProvider {
+  async function complete(req: ChatRequest, content: OpenAIContent): Promise<string> {
+    const base = opts.baseUrl || req.baseUrl || "https://api.openai.com/v1";
+    const messages: { role: string; content: OpenAIContent }[] = [];
+
+    if (req.systemPrompt && !opts.inlineSystemPrompt) {
+      messages.push({ role: "system", content: req.systemPrompt });
+    }
+    messages.push({ role: "user", content });
+
+    const res = await fetch(`${base}/chat/completions`, {
+      method: "POST",
+      signal: req.signal,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${req.apiKey}`,
+        ...opts.headers,
+      },
+      body: JSON.stringify({
+        model: req.model,
+        messages,
+        max_tokens: req.maxTokens ?? 6000,
+        temperature: req.temperature ?? 0.3,
+        ...(req.json ? { response_format: { type: "json_object" } } : {}),
+        ...(req.onDelta ? { stream: true } : {}),
+      }),
+    });
+
+    if (!res.ok || !req.onDelta || !res.body) {
+      const data = await readJson(res);
+      if (!res.ok) {
+        throw new ProviderError(opts.label, req.model, data ? extractErrorMessage(data, res.status) : "respuesta no es JSON válido", "http", res.status);
+      }
+
+      // Rate limits silenciosos: HTTP 200 pero campo error en body
+      if (data?.error) {
+        throw new ProviderError(opts.label, req.model, extractErrorMessage(data, res.status), "api");
+      }
+
+      const choices = data?.choices as Array<{ message?: { content?: string } }> | undefined;
+      const text = choices?.[0]?.message?.content;
+      if (!text || text.trim() === "") {
+        throw new ProviderError(
+          opts.label,
+          req.model,
+          `respuesta vacía o sin choices. Body: ${JSON.stringify(data).slice(0, 300)}`,
+          "empty"
+        );
+      }
+      return text;
+    }
+
+    let text = "";
+    await readSSE(res.body, ({ data }) => {
+      if (data === "[DONE]") return;
+      let chunk: Record<string, unknown>;
+      try { chunk = JSON.parse(data); } catch { return; }
+      // Los errores a mitad de stream llegan como un chunk con campo error
+      if (chunk.error) throw new ProviderError(opts.label, req.model, extractErrorMessage(chunk, res.status), "api");
+      const choices = chunk.choices as Array<{ delta?: { content?: string } }> | undefined;
+      const delta = choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        req.onDelta!(delta);
+      }
+    });
+    if (!text.trim()) throw new ProviderError(opts.label, req.model, "respuesta vacía en streaming", "empty");
+    return text;
+  }
+
+  const withInlinedSystem = (req: ChatRequest) =>
+    opts.inlineSystemPrompt && req.systemPrompt
+      ? `${req.systemPrompt}\n\n---\n\n${req.userPrompt}`
+      : req.userPrompt;
+
+  return {
+    id: opts.id,
+    label: opts.label,
+    envKey: opts.envKey,
+    chat: (req) => complete(req, withInlinedSystem(req)),
+    vision: (req) =>
+      complete(req, [
+        { type: "text", text: withInlinedSystem(req) },
+        { type: "image_url", image_url: { url: `data:${req.image.mimeType};base64,${req.image.base64}` } },
+      ]),
+  };
+}
+
+// ─── Gemini ───────────────────────────────────────────────────────────────────
+
+function createGeminiProvider(): LLMProvider {
+  async function generate(req: ChatRequest, parts: Record<string, unknown>[]): Promise<string> {
+    const method = req.onDelta ? "streamGenerateContent?alt=sse&" : "generateContent?";
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${req.model}:${method}key=${req.apiKey}`;
+    const res = await fetch(url, {
+      method: "POST",
+      signal: req.signal,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...(req.systemPrompt ? { systemInstruction: { parts: [{ text: req.systemPrompt }] } } : {}),
+        contents: [{ role: "user", parts }],
+        generationConfig: {
+          maxOutputTokens: req.maxTokens ?? 6000,
+          temperature: req.temperature ?? 0.3,
+          ...(req.json ? { responseMimeType: "application/json" } : {}),
+        },
+      }),
+    });
+
+    const textOf = (data: Record<string, unknown> | null) => {
+      const candidates = data?.candidates as Array<{ content?: { parts?: { text?: string }[] } }> | undefined;
+      return candidates?.[0]?.content?.parts?.map((p) => p.text || "").join("") || "";
+    };
+
+    if (!res.ok || !req.onDelta || !res.body) {
+      const data = await readJson(res);
+      if (!res.ok) throw new ProviderError("Gemini", req.model, extractErrorMessage(data, res.status), "http", res.status);
+      const text = textOf(data);
+      if (!text.trim()) throw new ProviderError("Gemini", req.model, "respuesta vacía", "empty");
+      return text;
+    }
+
+    let text = "";
+    await readSSE(res.body, ({ data }) => {
+      let chunk: Record<string, unknown>;
+      try { chunk = JSON.parse(data); } catch { return; }
+      if (chunk.error) throw new ProviderError("Gemini", req.model, extractErrorMessage(chunk, res.status), "api");
+      const delta = textOf(chunk);
+      if (delta) {
+        text += delta;
+        req.onDelta!(delta);
+      }
+    });
+    if (!text.trim()) throw new ProviderError("Gemini", req.model, "respuesta vacía en streaming", "empty");
+    return text;
+  }
+
+  return {
+    ...PROVIDERS.gemini,
+    chat: (req) => generate(req, [{ text: req.userPrompt }]),
+    vision: (req) =>
+      generate(req, [
+        { text: req.userPrompt },
+        { inline_data: { mime_type: req.image.mimeType, data: req.image.base64 } },
+      ]),
+  };
+}
+
+// ─── Registro ─────────────────────────────────────────────────────────────────
+
+const registry = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider) {
+  registry.set(provider.id, provider);
+}
+
+export function getProvider(id: string): LLMProvider | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Modo sin red (LLM_MODE=mock | local): todas las llamadas se redirigen al
+ * proveedor offline registrado en lib/offline-providers.ts. Ese módulo
+ * importa este, así que lo importa cada módulo que llama a resolveProvider;
+ * si falta, resolveProvider falla en vez de salir a la red.
+ */
+export function getOfflineMode(): "mock" | "local" | null {
+  const mode = process.env.LLM_MODE;
+  return mode === "mock" || mode === "local" ? mode : null;
+}
+
+/**
+ * Proveedor por nombre. Los endpoints OpenAI-compatibles propios van con
+ * "openai" y baseUrl; un id desconocido es un error, no un cambio de
+ * proveedor: la key y el prompt no deben acabar en otro servicio.
+ */
+export function resolveProvider(id: string): LLMProvider {
+  const offline = getOfflineMode();
+  if (offline) {
+    const local = registry.get(offline);
+    if (!local) {
+      throw new ProviderError(
+        offline,
+        "-",
+        `LLM_MODE=${offline} pero el proveedor offline no está registrado (falta importar lib/offline-providers)`,
+        "unknown"
+      );
+    }
+    return local;
+  }
+  const provider = registry.get(id);
+  if (!provider) {
+    const ids = Array.from(registry.keys()).join(", ");
+    throw new ProviderError(String(id), "-", `proveedor desconocido (registrados: ${ids})`, "unknown");
+  }
+  return provider;
+}
+
+export function listProviders(): LLMProvider[] {
+  return Array.from(registry.values());
+}
+
+registerProvider(
+  createOpenAICompatibleProvider({
+    ...PROVIDERS.mistral,
+    baseUrl: "https://api.mistral.ai/v1",
+  })
+);
+
+registerProvider(
+  createOpenAICompatibleProvider({
+    ...PROVIDERS.openrouter,
+    baseUrl: "https://openrouter.ai/api/v1",
+    headers: { "HTTP-Referer": "https://recursapp.vercel.app", "X-Title": "RecursApp" },
+    inlineSystemPrompt: true,
+  })
+);
+
+registerProvider(
+  createOpenAICompatibleProvider({
+    ...PROVIDERS.groq,
+    baseUrl: "https://api.groq.com/openai/v1",
+  })
+);
+
+registerProvider(createGeminiProvider());
+
+registerProvider(
+  createOpenAICompatibleProvider({
+    ...PROVIDERS.openai,
+  })
+);
+
+/** API keys del servidor por proveedor (variables de entorno de Vercel) */
+export function getServerApiKeys(): Record<string, string> {
+  const offline = getOfflineMode();
+  const keys: Record<string, string> = {};
+  for (const p of listProviders()) {
+    // En modo offline no hacen falta keys reales: el proveedor local ignora la del agente
+    keys[p.id] = process.env[p.envKey] || (offline ? offline : "");
+  }
+  return keys;
+}
@@ -0,0 +1,58 @@
+/**
+ * lib/sse.ts
+ *
+ * Server-Sent Events: codificación en las rutas y lectura incremental tanto de
+ * los streams de los proveedores LLM como del stream de /api/analyze en el cliente.
+ * (EventSource solo admite GET, así que se lee el body del fetch a mano.)
+ */
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/** Lee un stream SSE y llama a onMessage por cada mensaje completo */
+export async function readSSE(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (msg: SSEMessage) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (block: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith(":")) continue; // comentario / keep-alive
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (data.length) onMessage({ event, data: data.join("\n") });
+  };
+
+  // Si onMessage lanza (p. ej. un chunk.error a mitad de stream) se cancela
+  // el stream para no dejar la conexión abierta
+  let finished = false;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      // Se normaliza el buffer entero: un \r\n puede llegar partido entre dos fragmentos
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, "\n");
+      let idx: number;
+      while ((idx = buffer.indexOf("\n\n")) !== -1) {
+        flush(buffer.slice(0, idx));
+        buffer = buffer.slice(idx + 2);
+      }
+    }
+    if (buffer.trim()) flush(buffer);
+    finished = true;
+  } finally {
+    if (!finished) await reader.cancel().catch(() => {});
+  }
+}
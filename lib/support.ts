@@ -0,0 +1,135 @@
+/**
+ * lib/support.ts
+ *
+ * Documentación de apoyo (pruebas): extracción del contenido de cada
+ * fichero (texto del PDF, Word u ODT, descripción visual de imágenes,
+ * texto plano) y reparto de un presupuesto de caracteres para que quepan
+ * en el prompt.
+ */
+
+import pdfParse from "pdf-parse";
+import { ocrDocument } from "./ocr";
+import { extractOfficeText, officeKindOf } from "./office";
+import { resolveProvider } from "./providers";
+import "./offline-providers";
+import type { SupportDocument, SupportFilePayload } from "./contracts";
+
+/** Caracteres máximos de documentación de apoyo en el prompt de redacción */
+export const SUPPORT_BUDGET_CHARS = 12000;
+
+const TRUNCATION_MARK = "\n[… contenido recortado por extensión …]";
+
+export const DESCRIBE_MARKER = "=== DESCRIPCIÓN DE PRUEBA ===";
+
+const DESCRIBE_PROMPT = `${DESCRIBE_MARKER}
+Eres un perito que describe pruebas aportadas en un recurso contra una multa de tráfico española.
+
+Describe con precisión y de forma objetiva lo que se ve en este documento o fotografía:
+- Señales, marcas viales, placas, carteles y su estado (visibles, tapadas, borrosas, deterioradas…)
+- Vehículos, matrículas, ubicación, fecha u hora si aparecen
+- Todo el texto legible, transcrito literalmente (tickets, justificantes, cartas, certificados…)
+
+No valores jurídicamente ni inventes nada que no se vea. Responde solo con la descripción.`;
+
+const DESCRIBE_MODEL = { provider: "openrouter", model: "openrouter/auto" };
+
+const TEXT_EXTENSIONS = /\.(txt|md|csv|json|xml|html?)$/i;
+
+function kindOf(file: SupportFilePayload): SupportDocument["kind"] {
+  const type = file.type || "";
+  if (type === "application/pdf" || /\.pdf$/i.test(file.name)) return "pdf";
+  if (type.startsWith("image/")) return "image";
+  if (officeKindOf(type, file.name)) return "office";
+  if (type.startsWith("text/") || TEXT_EXTENSIONS.test(file.name)) return "text";
+  return "other";
+}
+
+/** Descripción visual; si no hay modelo de visión, al menos el texto que reconozca el OCR local */
+async function describe(apiKey: string, base64: string, mimeType: string, signal?: AbortSignal): Promise<string> {
+  const provider = resolveProvider(DESCRIBE_MODEL.provider);
+  try {
+    if (!provider.vision) throw new Error(`${provider.label} no admite imágenes`);
+    return await provider.vision({
+      apiKey,
+      model: DESCRIBE_MODEL.model,
+      userPrompt: DESCRIBE_PROMPT,
+      image: { base64, mimeType },
+      maxTokens: 1200,
+      temperature: 0.1,
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn("[support] visión no disponible, usando OCR local:", err instanceof Error ? err.message : err);
+    const text = await ocrDocument(Buffer.from(base64, "base64"), mimeType, signal);
+    return text ? `[Texto reconocido por OCR]\n${text}` : "";
+  }
+}
+
+async function extractOne(
+  apiKey: string,
+  file: SupportFilePayload,
+  index: number,
+  signal?: AbortSignal
+): Promise<SupportDocument> {
+  const kind = kindOf(file);
+  const doc: SupportDocument = { index, name: file.name, context: file.context || "", kind, content: "", truncated: false };
+  if (!file.base64) return { ...doc, error: "No se recibió el contenido del fichero" };
+
+  try {
+    if (kind === "text") {
+      doc.content = Buffer.from(file.base64, "base64").toString("utf8");
+    } else if (kind === "pdf") {
+      const parsed = await pdfParse(Buffer.from(file.base64, "base64"));
+      doc.content = (parsed.text || "").trim();
+      // PDF escaneado: sin capa de texto, se describe visualmente
+      if (doc.content.length < 100) doc.content = await describe(apiKey, file.base64, "application/pdf", signal);
+    } else if (kind === "office") {
+      doc.content = await extractOfficeText(Buffer.from(file.base64, "base64"), officeKindOf(file.type, file.name)!);
+    } else if (kind === "image") {
+      doc.content = await describe(apiKey, file.base64, file.type || "image/jpeg", signal);
+    } else {
+      doc.error = "Formato no soportado: solo se incluye el nombre y la descripción del usuario";
+    }
+  } catch (err) {
+    doc.error = `No se pudo leer: ${err instanceof Error ? err.message : "Error"}`;
+  }
+  doc.content = doc.content.replace(/\n{3,}/g, "\n\n").trim();
+  return doc;
+}
+
+/**
+ * Reparte el presupuesto a partes iguales y cede lo que no usen los
+ * documentos cortos a los largos, que se recortan por el final.
+ */
+export function applyBudget(docs: SupportDocument[], budget = SUPPORT_BUDGET_CHARS): SupportDocument[] {
+  const limits = new Map<number, number>();
+  let remaining = budget;
+  const bySize = [...docs].sort((a, b) => a.content.length - b.content.length);
+  bySize.forEach((doc, i) => {
+    const share = Math.floor(remaining / (bySize.length - i));
+    const limit = Math.min(doc.content.length, share);
+    limits.set(doc.index, limit);
+    remaining -= limit;
+  });
+
+  return docs.map((doc) => {
+    const limit = limits.get(doc.index) ?? 0;
+    if (doc.content.length <= limit) return doc;
+    return { ...doc, content: doc.content.slice(0, limit).trimEnd() + TRUNCATION_MARK, truncated: true };
+  });
+}
+
+/**
+ * Extrae en paralelo el contenido de los ficheros de apoyo, numerados desde 1.
+ * signal corta la visión y el OCR si el cliente se desconecta.
+ */
+export async function extractSupportDocuments(
+  openrouterApiKey: string,
+  files: SupportFilePayload[] = [],
+  signal?: AbortSignal
+): Promise<SupportDocument[]> {
+  const docs = await Promise.all(files.map((f, i) => extractOne(openrouterApiKey, f, i + 1, signal)));
+  for (const d of docs) if (d.error) console.warn(`[support] ${d.name}:`, d.error);
+  return applyBudget(docs);
+}
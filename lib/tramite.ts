@@ -0,0 +1,183 @@
+/**
+ * lib/tramite.ts
+ *
+ * Fase del procedimiento sancionador (denuncia, resolución, apremio) y tipo
+ * de escrito que corresponde presentar. Detección por texto sobre los datos
+ * ya extraídos; el usuario puede corregirla. Sin dependencias de servidor.
+ */
+
+import type { MultaData } from "./multa";
+import type { Procedimiento } from "./plazos";
+
+export type FaseProcedimiento = "denuncia" | "resolucion" | "apremio";
+
+export type TipoEscrito = "alegaciones" | "reposicion" | "alzada" | "apremio";
+
+export interface DefinicionEscrito {
+  label: string;
+  /** Título del escrito, en mayúsculas, tal y como encabeza el documento */
+  titulo: string;
+  /** Fase del procedimiento en la que se presenta */
+  fase: FaseProcedimiento;
+  plazo: Procedimiento;
+  /** Qué se pide y con qué límites: se inyecta en los prompts de redacción y fusión */
+  enfoque: string;
+  /** Secciones obligatorias, en orden */
+  estructura: string[];
+}
+
+export const FASES: Record<FaseProcedimiento, string> = {
+  denuncia: "Boletín de denuncia / acuerdo de incoación",
+  resolucion: "Resolución sancionadora",
+  apremio: "Providencia de apremio",
+};
+
+export const ESCRITOS: Record<TipoEscrito, DefinicionEscrito> = {
+  alegaciones: {
+    label: "Escrito de alegaciones",
+    titulo: "ESCRITO DE ALEGACIONES",
+    fase: "denuncia",
+    plazo: "alegaciones_trafico",
+    enfoque: `Todavía NO hay sanción: el procedimiento está en fase de instrucción tras la denuncia o el acuerdo de incoación.
+El objetivo es el ARCHIVO del expediente. Propón la práctica de prueba (art. 77 Ley 39/2015): fotografías,
+certificado de verificación del cinemómetro, informe ratificador del agente, etc. Solicita copia del expediente.
+No lo llames "recurso": es un escrito de alegaciones dirigido al instructor del procedimiento.`,
+    estructura: [
+      "DATOS DEL INTERESADO (bloque para rellenar: NOMBRE, DNI, DOMICILIO, TELÉFONO, EMAIL)",
+      "ÓRGANO AL QUE SE DIRIGE (instructor del expediente; usa el organismo exacto de los datos)",
+      "EXPONE / HECHOS",
+      "ALEGACIONES (PRIMERA, SEGUNDA…: refuta cada artículo y cada defecto formal)",
+      "PROPOSICIÓN DE PRUEBA",
+      "SOLICITA (archivo del expediente y práctica de la prueba propuesta)",
+      "DOCUMENTOS QUE SE ACOMPAÑAN (solo si se aporta documentación de apoyo)",
+      "LUGAR, FECHA Y FIRMA",
+    ],
+  },
+  reposicion: {
+    label: "Recurso de reposición",
+    titulo: "RECURSO DE REPOSICIÓN",
+    fase: "resolucion",
+    plazo: "reposicion",
+    enfoque: `Ya hay una RESOLUCIÓN SANCIONADORA que agota la vía administrativa. Se recurre ante el mismo órgano que la dictó
+(arts. 123-124 Ley 39/2015). El objetivo es la anulación o revocación de la sanción: nulidad (art. 47), anulabilidad (art. 48),
+falta de motivación, indefensión, prueba no practicada, prescripción o caducidad.`,
+    estructura: [
+      "DATOS DEL RECURRENTE (bloque para rellenar: NOMBRE, DNI, DOMICILIO, TELÉFONO, EMAIL)",
+      "ÓRGANO AL QUE SE DIRIGE (el mismo que dictó la resolución; usa el organismo exacto de los datos)",
+      "HECHOS",
+      "FUNDAMENTOS DE DERECHO (refuta cada artículo citado; normativa y jurisprudencia favorable)",
+      "SÚPLICA (anulación de la resolución y archivo, o subsidiariamente reducción)",
+      "DOCUMENTOS QUE SE ACOMPAÑAN (solo si se aporta documentación de apoyo)",
+      "LUGAR, FECHA Y FIRMA",
+    ],
+  },
+  alzada: {
+    label: "Recurso de alzada",
+    titulo: "RECURSO DE ALZADA",
+    fase: "resolucion",
+    plazo: "alzada",
+    enfoque: `Ya hay una RESOLUCIÓN SANCIONADORA que NO agota la vía administrativa. Se interpone ante el órgano superior jerárquico
+del que la dictó (arts. 121-122 Ley 39/2015), aunque puede presentarse ante este último. El objetivo es la anulación de la sanción.`,
+    estructura: [
+      "DATOS DEL RECURRENTE (bloque para rellenar: NOMBRE, DNI, DOMICILIO, TELÉFONO, EMAIL)",
+      "ÓRGANO AL QUE SE DIRIGE (superior jerárquico del que dictó la resolución)",
+      "RESOLUCIÓN RECURRIDA (órgano, fecha y número de expediente)",
+      "HECHOS",
+      "FUNDAMENTOS DE DERECHO",
+      "SÚPLICA (estimación del recurso, anulación de la resolución y archivo)",
+      "DOCUMENTOS QUE SE ACOMPAÑAN (solo si se aporta documentación de apoyo)",
+      "LUGAR, FECHA Y FIRMA",
+    ],
+  },
+  apremio: {
+    label: "Recurso contra providencia de apremio",
+    titulo: "RECURSO DE REPOSICIÓN CONTRA PROVIDENCIA DE APREMIO",
+    fase: "apremio",
+    plazo: "apremio",
+    enfoque: `La multa está en PERIODO EJECUTIVO (providencia de apremio). Contra la providencia SOLO caben los motivos tasados
+del art. 167.3 LGT: extinción total de la deuda o prescripción del derecho a exigir el pago, solicitud de aplazamiento,
+fraccionamiento o compensación en periodo voluntario, falta de notificación de la liquidación o de la resolución sancionadora,
+anulación de la liquidación, o error u omisión que impida identificar al deudor o la deuda.
+NO reabras el fondo de la infracción: céntrate en esos motivos (en especial, defectos de notificación de la sanción).
+Solicita la suspensión del procedimiento de apremio.`,
+    estructura: [
+      "DATOS DEL RECURRENTE (bloque para rellenar: NOMBRE, DNI, DOMICILIO, TELÉFONO, EMAIL)",
+      "ÓRGANO AL QUE SE DIRIGE (órgano de recaudación que dictó la providencia)",
+      "PROVIDENCIA RECURRIDA (número, fecha, importe y recargo)",
+      "HECHOS",
+      "MOTIVOS DE OPOSICIÓN (solo los del art. 167.3 LGT)",
+      "SÚPLICA (anulación de la providencia y suspensión del procedimiento de apremio)",
+      "DOCUMENTOS QUE SE ACOMPAÑAN (solo si se aporta documentación de apoyo)",
+      "LUGAR, FECHA Y FIRMA",
+    ],
+  },
+};
+
+// ─── Detección ────────────────────────────────────────────────────────────────
+
+export interface DeteccionTramite {
+  fase: FaseProcedimiento;
+  escrito: TipoEscrito;
+  /** Expresión del documento que decidió la fase, o "" si es la opción por defecto */
+  indicio: string;
+}
+
+const INDICIOS_APREMIO = [/providencia de apremio/, /periodo ejecutivo/, /recargo (ejecutivo|de apremio)/, /v[ií]a de apremio/];
+
+const INDICIOS_RESOLUCION = [
+  /resoluci[oó]n sancionadora/,
+  /se (le )?impone la sanci[oó]n/,
+  /\bresuelvo\b|\bse resuelve\b/,
+];
+
+const INDICIOS_DENUNCIA = [
+  /bolet[ií]n de denuncia/,
+  /notificaci[oó]n de (la )?denuncia/,
+  /acuerdo de (incoaci[oó]n|iniciaci[oó]n)/,
+  /incoaci[oó]n/,
+  /formular alegaciones/,
+  /reducci[oó]n del 50|descuento del 50|50 ?%/,
+];
+
+/** Solo cuentan si no hay indicios de denuncia: los boletines también informan del recurso futuro */
+const INDICIOS_RECURSO = [
+  /recurso (potestativo )?de reposici[oó]n/,
+  /recurso de alzada/,
+  /agota la v[ií]a administrativa/,
+  /firme en v[ií]a administrativa/,
+];
+
+function buscar(texto: string, patrones: RegExp[]): string {
+  for (const re of patrones) {
+    const m = texto.match(re);
+    if (m) return m[0];
+  }
+  return "";
+}
+
+/**
+ * El apremio manda sobre todo lo demás (la providencia suele citar la
+ * resolución previa) y la resolución sobre la denuncia. Sin indicios se
+ * asume denuncia: es lo que llega en la gran mayoría de casos.
+ */
+export function detectarTramite(multa: MultaData): DeteccionTramite {
+  const texto = [multa.tipoInfraccion, multa.plazoRecurso, multa.textoLiteral, multa.observaciones]
+    .join("\n")
+    .toLowerCase();
+  const escritoResolucion: TipoEscrito =
+    /no agota la v[ií]a administrativa|recurso de alzada/.test(texto) ? "alzada" : "reposicion";
+
+  let indicio = buscar(texto, INDICIOS_APREMIO);
+  if (indicio) return { fase: "apremio", escrito: "apremio", indicio };
+
+  indicio = buscar(texto, INDICIOS_RESOLUCION);
+  if (indicio) return { fase: "resolucion", escrito: escritoResolucion, indicio };
+
+  indicio = buscar(texto, INDICIOS_DENUNCIA);
+  if (indicio) return { fase: "denuncia", escrito: "alegaciones", indicio };
+
+  indicio = buscar(texto, INDICIOS_RECURSO);
+  if (indicio) return { fase: "resolucion", escrito: escritoResolucion, indicio };
+
+  return { fase: "denuncia", escrito: "alegaciones", indicio: "" };
+}
@@ -1,7 +1,12 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['pdf-parse', 'mammoth'],
+    serverComponentsExternalPackages: ['pdf-parse', 'mammoth', 'tesseract.js', '@tesseract.js-data/spa', 'pdfkit'],
+    // Las fuentes del PDF se leen del disco en tiempo de ejecución
+    outputFileTracingIncludes: {
+      '/api/generate-doc': ['./node_modules/@fontsource/tinos/files/tinos-latin-*.woff'],
+      '/api/generate-bundle': ['./node_modules/@fontsource/tinos/files/tinos-latin-*.woff'],
+    },
   },
   api: {
     bodyParser: {
@@ -0,0 +1,9 @@
+declare module '@tesseract.js-data/spa' {
+  const spa: {
+    code: string;
+    gzip: boolean;
+    langPath: string;
+  };
+
+  export = spa;
+}